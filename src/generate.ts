@@ -4,21 +4,12 @@ import AwaitEventEmitter from 'await-event-emitter';
 import { mapKeys } from 'lodash';
 import { Project, QuoteKind } from 'ts-morph';
 
-import { argsType } from './handlers/args-type';
-import { combineScalarFilters } from './handlers/combine-scalar-filters';
-import { createAggregateInput } from './handlers/create-aggregate-input';
-import { emitSingle } from './handlers/emit-single';
-import { generateFiles } from './handlers/generate-files';
-import { inputType } from './handlers/input-type';
-import { modelData } from './handlers/model-data';
-import { modelOutputType } from './handlers/model-output-type';
-import { noAtomicOperations } from './handlers/no-atomic-operations';
-import { outputType } from './handlers/output-type';
-import { purgeOutput } from './handlers/purge-output';
-import { ReExport, reExport } from './handlers/re-export';
-import { registerEnum } from './handlers/register-enum';
-import { requireSingleFieldsInWhereUniqueInput } from './handlers/require-single-fields-in-whereunique-input';
-import { warning } from './handlers/warning';
+import { authorize } from './handlers/authorize';
+import { defaultHandlers } from './handlers/default-handlers';
+import { emitOptions } from './handlers/emit-options';
+import { outputOptions } from './handlers/output-options';
+import { unionType } from './handlers/union-type';
+import { variants } from './handlers/variants';
 import { createConfig } from './helpers/create-config';
 import { factoryGetSourceFile } from './helpers/factory-get-source-file';
 import { createGetModelName } from './helpers/get-model-name';
@@ -46,15 +37,7 @@ export async function generate(
   ok(generatorOutputValue, 'Missing generator configuration: output');
 
   const eventEmitter = new AwaitEventEmitter();
-  eventEmitter.on('Warning', warning);
-  eventEmitter.on('Model', modelData);
-  eventEmitter.on('EnumType', registerEnum);
-  eventEmitter.on('OutputType', outputType);
-  eventEmitter.on('ModelOutputType', modelOutputType);
-  eventEmitter.on('AggregateOutput', createAggregateInput);
-  eventEmitter.on('InputType', inputType);
-  eventEmitter.on('ArgsType', argsType);
-  eventEmitter.on('GenerateFiles', generateFiles);
+  defaultHandlers(eventEmitter);
 
   const config = createConfig(generator.config);
   for (const message of config.$warnings) {
@@ -77,19 +60,18 @@ export async function generate(
     ]);
   }
 
-  config.combineScalarFilters && combineScalarFilters(eventEmitter);
-  config.noAtomicOperations && noAtomicOperations(eventEmitter);
-  config.reExport !== ReExport.None && reExport(eventEmitter);
-  config.emitSingle && emitSingle(eventEmitter);
-  config.purgeOutput && purgeOutput(eventEmitter);
-  config.requireSingleFieldsInWhereUniqueInput &&
-    requireSingleFieldsInWhereUniqueInput(eventEmitter);
+  outputOptions(eventEmitter, config);
+  emitOptions(eventEmitter, config);
+  unionType(eventEmitter);
+  authorize(eventEmitter);
+  // Variants copy generated classes, must be last
+  variants(eventEmitter);
 
   const models = new Map<string, Model>();
   const modelNames: string[] = [];
   const modelFields = new Map<string, Map<string, Field>>();
   const fieldSettings = new Map<string, Map<string, ObjectSettings>>();
-  const getModelName = createGetModelName(modelNames);
+  const getModelName = createGetModelName(modelNames, { models, config });
   const getSourceFile = factoryGetSourceFile({
     output: generatorOutputValue,
     project,
@@ -110,6 +92,7 @@ export async function generate(
     fieldSettings,
     project,
     output: generatorOutputValue,
+    datamodel: args.datamodel,
     getSourceFile,
     eventEmitter,
     typeNames: new Set<string>(),
@@ -176,6 +159,8 @@ export async function generate(
     }
   }
 
+  await eventEmitter.emit('RootOutputTypes', queryOutputTypes, eventArguments);
+
   await eventEmitter.emit('BeforeGenerateFiles', eventArguments);
   await eventEmitter.emit('GenerateFiles', eventArguments);
   await eventEmitter.emit('End', eventArguments);
@@ -1,27 +1,22 @@
-import { pascalCase } from '../helpers/pascal-case';
+import { getArgsTypeName } from '../helpers/get-args-type-name';
 import { EventArguments, InputType, SchemaField } from '../types';
 
 /**
  * See https://github.com/prisma/prisma/blob/master/src/packages/client/src/generation/TSClient/Model.ts@getAggregationTypes
  * Subcribes on: 'ArgsType'
  */
-export function argsType(field: SchemaField, args: EventArguments) {
+export function argsType(
+  field: SchemaField,
+  args: EventArguments & { className?: string },
+) {
   if (['queryRaw', 'executeRaw'].includes(field.name)) {
     return;
   }
   const { eventEmitter, typeNames, getModelName } = args;
-  let className = pascalCase(`${field.name}Args`);
+  const className =
+    args.className ?? getArgsTypeName({ name: field.name, getModelName });
   const modelName = getModelName(className) || '';
 
-  switch (className) {
-    case `Aggregate${modelName}Args`:
-      className = `${modelName}AggregateArgs`;
-      break;
-    case `GroupBy${modelName}Args`:
-      className = `${modelName}GroupByArgs`;
-      break;
-  }
-
   const inputType: InputType = {
     // eslint-disable-next-line unicorn/no-null
     constraints: { maxNumFields: null, minNumFields: null },
@@ -0,0 +1,142 @@
+import AwaitEventEmitter from 'await-event-emitter';
+import JSON5 from 'json5';
+import path from 'path';
+import { SourceFile, StructureKind, VariableDeclarationKind } from 'ts-morph';
+
+import { addNamedImport } from '../helpers/add-named-import';
+import { getGraphqlFieldName } from '../helpers/get-graphql-field-name';
+import { getOutputTypeModel } from '../helpers/get-output-type-model';
+import { createObjectSettings } from '../helpers/object-settings';
+import { relativePath } from '../helpers/relative-path';
+import { EventArguments, Model, OutputType } from '../types';
+
+export function authorize(emitter: AwaitEventEmitter) {
+  // Type name to field name to roles
+  const registry = new Map<string, Record<string, string[]>>();
+
+  emitter.on('ModelOutputType', (outputType: OutputType, args: EventArguments) => {
+    const sourceFile = args.getSourceFile({ name: outputType.name, type: 'model' });
+    const model = args.models.get(outputType.name);
+    authorizeClass({ ...args, registry, sourceFile, typeName: outputType.name, model });
+  });
+  emitter.on('OutputType', (outputType: OutputType, args: EventArguments) => {
+    const sourceFile = args.getSourceFile({ name: outputType.name, type: 'output' });
+    const model = getOutputTypeModel({ name: outputType.name, models: args.models });
+    authorizeClass({ ...args, registry, sourceFile, typeName: outputType.name, model });
+  });
+  emitter.on('RootOutputTypes', (_: OutputType[], args: EventArguments) =>
+    createRegistry({ ...args, registry }),
+  );
+}
+
+/**
+ * Add authorization decorator to fields of model (or output type of model)
+ * by `@Authorize()` setting of field or model.
+ * Subcribes on: 'ModelOutputType', 'OutputType'
+ */
+function authorizeClass(
+  args: EventArguments & {
+    registry: Map<string, Record<string, string[]>>;
+    sourceFile: SourceFile;
+    typeName: string;
+    model?: Model;
+  },
+) {
+  const { registry, sourceFile, typeName, model, fieldSettings, config } = args;
+  const classDeclaration = sourceFile.getClass(typeName);
+
+  if (!model || !classDeclaration) {
+    return;
+  }
+
+  const modelRoles = getModelRoles(model, args);
+
+  for (const field of model.fields) {
+    const roles =
+      fieldSettings.get(model.name)?.get(field.name)?.getRoles() ?? modelRoles;
+    const property = classDeclaration.getProperty(field.name);
+    if (!roles || !property?.getDecorator('Field')) {
+      continue;
+    }
+    const { name, specifier } = getDecoratorImport(sourceFile, args);
+    property.addDecorator({
+      name,
+      arguments: config.authorize
+        ? roles.map(role => JSON5.stringify(role))
+        : [JSON5.stringify({ roles })],
+    });
+    addNamedImport(sourceFile, name, specifier);
+    // Registry is looked up by names of fields in graphql schema
+    const graphqlName =
+      getGraphqlFieldName({ ...args, modelName: model.name, name: field.name }) ??
+      field.name;
+    registry.set(typeName, { ...registry.get(typeName), [graphqlName]: roles });
+  }
+}
+
+function getModelRoles(model: Model, args: EventArguments) {
+  if (!model.documentation) {
+    return;
+  }
+  const { settings } = createObjectSettings({
+    text: model.documentation,
+    config: args.config,
+  });
+  return settings.getRoles();
+}
+
+/**
+ * Configured decorator (`authorize_name`, `authorize_specifier`) or `Extensions`
+ */
+function getDecoratorImport(sourceFile: SourceFile, args: EventArguments) {
+  const { config, output } = args;
+  if (!config.authorize) {
+    return { name: 'Extensions', specifier: config.graphqlModule };
+  }
+  const { name, specifier = '' } = config.authorize;
+  return {
+    name,
+    specifier: specifier.startsWith('.')
+      ? relativePath(sourceFile.getFilePath(), path.posix.join(output, specifier))
+      : specifier,
+  };
+}
+
+/**
+ * Generate registry of protected fields.
+ * Subcribes on: 'RootOutputTypes'
+ */
+function createRegistry(
+  args: EventArguments & { registry: Map<string, Record<string, string[]>> },
+) {
+  const { registry, getSourceFile } = args;
+  if (registry.size === 0) {
+    return;
+  }
+  const sourceFile = getSourceFile({ name: 'AuthorizedFields', type: 'registry' });
+
+  sourceFile.set({
+    statements: [
+      {
+        kind: StructureKind.VariableStatement,
+        isExported: true,
+        declarationKind: VariableDeclarationKind.Const,
+        leadingTrivia: '/**\n * Roles required to access fields of types\n */\n',
+        declarations: [
+          {
+            name: 'authorizedFields',
+            type: 'Record<string, Record<string, string[]> | undefined>',
+            initializer: [
+              '{',
+              ...[...registry].map(
+                ([typeName, fields]) =>
+                  `  ${typeName}: ${JSON5.stringify(fields, { quote: "'" })},`,
+              ),
+              '}',
+            ].join('\n'),
+          },
+        ],
+      },
+    ],
+  });
+}
@@ -0,0 +1,87 @@
+import AwaitEventEmitter from 'await-event-emitter';
+import { Node, SourceFile } from 'ts-morph';
+
+import { getOutputTypeModel } from '../helpers/get-output-type-model';
+import { EventArguments, OutputType } from '../types';
+
+export function complexity(emitter: AwaitEventEmitter) {
+  emitter.on('ModelOutputType', (outputType: OutputType, args: EventArguments) => {
+    const sourceFile = args.getSourceFile({ name: outputType.name, type: 'model' });
+    addComplexity({ ...args, outputType, sourceFile, modelName: outputType.name });
+  });
+  emitter.on('OutputType', (outputType: OutputType, args: EventArguments) => {
+    const sourceFile = args.getSourceFile({ name: outputType.name, type: 'output' });
+    const model = getOutputTypeModel({ name: outputType.name, models: args.models });
+    addComplexity({ ...args, outputType, sourceFile, modelName: model?.name });
+  });
+}
+
+/**
+ * Add complexity to field options (estimated by field type or `@Complexity()` setting).
+ * Subcribes on: 'ModelOutputType', 'OutputType'
+ */
+function addComplexity(
+  args: EventArguments & {
+    outputType: OutputType;
+    sourceFile: SourceFile;
+    modelName?: string;
+  },
+) {
+  const { outputType, sourceFile, modelName, config, fieldSettings, eventEmitter } =
+    args;
+  const classDeclaration = sourceFile.getClass(outputType.name);
+  const modelFieldSettings = modelName ? fieldSettings.get(modelName) : undefined;
+
+  if (!classDeclaration || !config.complexity) {
+    return;
+  }
+
+  for (const field of outputType.fields) {
+    const fieldDecorator = classDeclaration
+      .getProperty(field.name)
+      ?.getDecorator('Field');
+    if (!fieldDecorator) {
+      continue;
+    }
+    const [, options] = fieldDecorator.getArguments();
+    if (Node.isObjectLiteralExpression(options) && options.getProperty('complexity')) {
+      continue;
+    }
+
+    const setting = modelFieldSettings?.get(field.name)?.getComplexity();
+    const isValidSetting = setting !== undefined && /^\d+$/.test(setting);
+    // Report once for model, output types of model (aggregates, etc.) share settings
+    if (setting !== undefined && !isValidSetting && outputType.name === modelName) {
+      eventEmitter.emitSync(
+        'Warning',
+        `Complexity of ${modelName}.${field.name} must be non-negative integer, '${setting}' is ignored`,
+      );
+    }
+    const value = isValidSetting
+      ? Number(setting)
+      : estimateComplexity({ field, complexity: config.complexity });
+
+    if (Node.isObjectLiteralExpression(options)) {
+      options.addPropertyAssignment({ name: 'complexity', initializer: String(value) });
+    } else {
+      fieldDecorator.addArgument(`{complexity:${value}}`);
+    }
+  }
+}
+
+function estimateComplexity(args: {
+  field: OutputType['fields'][number];
+  complexity: { scalar: number; listMultiplier: number };
+}) {
+  const { field, complexity } = args;
+  const { location, isList } = field.outputType;
+
+  if (location !== 'outputObjectTypes' || !isList) {
+    return complexity.scalar;
+  }
+  // Relation list costs as many children as requested by take (may be negative)
+  if (field.args.some(a => a.name === 'take')) {
+    return `({ args, childComplexity }) => Math.abs(args.take ?? ${complexity.listMultiplier}) * childComplexity`;
+  }
+  return `({ childComplexity }) => ${complexity.listMultiplier} * childComplexity`;
+}
@@ -0,0 +1,28 @@
+import AwaitEventEmitter from 'await-event-emitter';
+
+import { argsType } from './args-type';
+import { createAggregateInput } from './create-aggregate-input';
+import { generateFiles } from './generate-files';
+import { inputType } from './input-type';
+import { modelData } from './model-data';
+import { modelOutputType } from './model-output-type';
+import { outputType } from './output-type';
+import { registerEnum } from './register-enum';
+import { relationArgsType } from './relation-args-type';
+import { warning } from './warning';
+
+/**
+ * Handlers which generate types, always connected before handlers of options.
+ */
+export function defaultHandlers(emitter: AwaitEventEmitter) {
+  emitter.on('Warning', warning);
+  emitter.on('Model', modelData);
+  emitter.on('EnumType', registerEnum);
+  emitter.on('OutputType', outputType);
+  emitter.on('ModelOutputType', modelOutputType);
+  emitter.on('AggregateOutput', createAggregateInput);
+  emitter.on('InputType', inputType);
+  emitter.on('ArgsType', argsType);
+  relationArgsType(emitter);
+  emitter.on('GenerateFiles', generateFiles);
+}
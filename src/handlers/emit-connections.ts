@@ -0,0 +1,194 @@
+import AwaitEventEmitter from 'await-event-emitter';
+import JSON5 from 'json5';
+import { ClassDeclarationStructure, SourceFile, StructureKind } from 'ts-morph';
+
+import { getGraphqlInputType } from '../helpers/get-graphql-input-type';
+import { getModelOperations } from '../helpers/get-model-operations';
+import { ImportDeclarationMap } from '../helpers/import-declaration-map';
+import { propertyStructure } from '../helpers/property-structure';
+import { relativePath } from '../helpers/relative-path';
+import { EventArguments, OutputType } from '../types';
+
+export function emitConnections(emitter: AwaitEventEmitter) {
+  emitter.on('RootOutputTypes', rootOutputTypes);
+}
+
+type ConnectionField = {
+  name: string;
+  type: string;
+  propertyType: string;
+  isList?: boolean;
+  nullable?: boolean;
+};
+
+/**
+ * Generate relay connection types (connection, edge and args) per model
+ * and shared page info type.
+ * Subcribes on: 'RootOutputTypes'
+ */
+function rootOutputTypes(outputTypes: OutputType[], args: EventArguments) {
+  const { getModelName, getSourceFile, config } = args;
+  const modelOperations = getModelOperations({ outputTypes, getModelName });
+  const pageInfoSourceFile = getSourceFile({ name: 'PageInfo', type: 'output' });
+
+  createClass({
+    ...args,
+    sourceFile: pageInfoSourceFile,
+    name: 'PageInfo',
+    decoratorName: 'ObjectType',
+    fields: [
+      { name: 'hasNextPage', type: 'Boolean', propertyType: 'boolean' },
+      { name: 'hasPreviousPage', type: 'Boolean', propertyType: 'boolean' },
+      { name: 'startCursor', type: 'String', propertyType: 'string', nullable: true },
+      { name: 'endCursor', type: 'String', propertyType: 'string', nullable: true },
+    ],
+    // Same type in all subgraphs
+    directives: config.federation ? ['@shareable'] : [],
+  });
+
+  for (const [modelName, operations] of modelOperations) {
+    const findMany = operations.find(o => o.action === 'findMany');
+    if (!findMany) {
+      continue;
+    }
+    const edgeName = `${modelName}Edge`;
+    const edgeSourceFile = getSourceFile({ name: edgeName, type: 'output' });
+    const connectionSourceFile = getSourceFile({
+      name: `${modelName}Connection`,
+      type: 'output',
+    });
+    const argsSourceFile = getSourceFile({
+      name: `${modelName}ConnectionArgs`,
+      type: 'args',
+    });
+
+    createClass({
+      ...args,
+      sourceFile: edgeSourceFile,
+      name: edgeName,
+      decoratorName: 'ObjectType',
+      fields: [
+        { name: 'cursor', type: 'String', propertyType: 'string' },
+        { name: 'node', type: modelName, propertyType: modelName },
+      ],
+      imports: { [modelName]: getSourceFile({ name: modelName, type: 'model' }) },
+    });
+
+    createClass({
+      ...args,
+      sourceFile: connectionSourceFile,
+      name: `${modelName}Connection`,
+      decoratorName: 'ObjectType',
+      fields: [
+        { name: 'edges', type: edgeName, propertyType: edgeName, isList: true },
+        { name: 'pageInfo', type: 'PageInfo', propertyType: 'PageInfo' },
+      ],
+      imports: { [edgeName]: edgeSourceFile, PageInfo: pageInfoSourceFile },
+    });
+
+    const fields: ConnectionField[] = [
+      { name: 'first', type: 'Int', propertyType: 'number', nullable: true },
+      { name: 'after', type: 'String', propertyType: 'string', nullable: true },
+      { name: 'last', type: 'Int', propertyType: 'number', nullable: true },
+      { name: 'before', type: 'String', propertyType: 'string', nullable: true },
+    ];
+    const imports: Record<string, SourceFile> = {};
+
+    // Same where and orderBy as in findMany args
+    for (const argument of findMany.field.args) {
+      if (!['where', 'orderBy'].includes(argument.name)) {
+        continue;
+      }
+      const { type, isList } = getGraphqlInputType(argument.inputTypes);
+      const typeName = String(type);
+      fields.push({
+        name: argument.name,
+        type: typeName,
+        propertyType: typeName,
+        isList,
+        nullable: true,
+      });
+      imports[typeName] = getSourceFile({ name: typeName, type: 'input' });
+    }
+
+    createClass({
+      ...args,
+      sourceFile: argsSourceFile,
+      name: `${modelName}ConnectionArgs`,
+      decoratorName: 'ArgsType',
+      fields,
+      imports,
+    });
+  }
+}
+
+function createClass(
+  args: EventArguments & {
+    sourceFile: SourceFile;
+    name: string;
+    decoratorName: string;
+    fields: ConnectionField[];
+    imports?: Record<string, SourceFile>;
+    directives?: string[];
+  },
+) {
+  const {
+    sourceFile,
+    name: className,
+    decoratorName,
+    fields,
+    config,
+    imports = {},
+    directives = [],
+  } = args;
+  const importDeclarations = new ImportDeclarationMap();
+  const classStructure: ClassDeclarationStructure = {
+    kind: StructureKind.Class,
+    isExported: true,
+    name: className,
+    decorators: [{ name: decoratorName, arguments: [] }],
+    properties: [],
+  };
+
+  importDeclarations.add('Field', config.graphqlModule);
+  importDeclarations.add(decoratorName, config.graphqlModule);
+
+  for (const directive of directives) {
+    importDeclarations.add('Directive', config.graphqlModule);
+    classStructure.decorators?.push({
+      name: 'Directive',
+      arguments: [`'${directive}'`],
+    });
+  }
+
+  for (const [importName, importSourceFile] of Object.entries(imports)) {
+    importDeclarations.add(
+      importName,
+      relativePath(sourceFile.getFilePath(), importSourceFile.getFilePath()),
+    );
+  }
+
+  for (const { name, type, propertyType, isList = false, nullable = false } of fields) {
+    const property = propertyStructure({
+      name,
+      propertyType: [propertyType],
+      isList,
+      isNullable: nullable,
+    });
+    if (type === 'Int') {
+      importDeclarations.add('Int', config.graphqlModule);
+    }
+    property.decorators?.push({
+      name: 'Field',
+      arguments: [
+        isList ? `() => [${type}]` : `() => ${type}`,
+        JSON5.stringify({ nullable }),
+      ],
+    });
+    classStructure.properties?.push(property);
+  }
+
+  sourceFile.set({
+    statements: [...importDeclarations.toStatements(), classStructure],
+  });
+}
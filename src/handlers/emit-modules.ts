@@ -0,0 +1,225 @@
+import { ok } from 'assert';
+import AwaitEventEmitter from 'await-event-emitter';
+import path from 'path';
+import { ClassDeclarationStructure, SourceFile, StructureKind } from 'ts-morph';
+
+import { hasReferenceResolver } from '../helpers/get-federation-keys';
+import { getModelOperations } from '../helpers/get-model-operations';
+import { getRelationFields } from '../helpers/get-relation-key';
+import { ImportDeclarationMap } from '../helpers/import-declaration-map';
+import { hasNodeId } from '../helpers/node-id';
+import { relativePath } from '../helpers/relative-path';
+import { EventArguments, OutputType } from '../types';
+
+export function emitModules(emitter: AwaitEventEmitter) {
+  emitter.on('RootOutputTypes', rootOutputTypes);
+}
+
+/**
+ * Generate module per model (with generated resolver/service)
+ * and root module which imports all of them.
+ * Subcribes on: 'RootOutputTypes'
+ */
+function rootOutputTypes(outputTypes: OutputType[], args: EventArguments) {
+  const { getModelName, modelNames, models, getSourceFile, config } = args;
+  const modelOperations = getModelOperations({ outputTypes, getModelName });
+  const sourceFile = getSourceFile({
+    name: 'GeneratedGraphql',
+    type: 'module',
+  });
+  const importDeclarations = new ImportDeclarationMap();
+  const moduleNames: string[] = [];
+  const classStructure: ClassDeclarationStructure = {
+    kind: StructureKind.Class,
+    isExported: true,
+    name: 'GeneratedGraphqlModule',
+    decorators: [],
+  };
+
+  importDeclarations.add('Module', '@nestjs/common');
+
+  if (!config.prismaService) {
+    // Share single prisma client across all generated modules
+    importDeclarations.add('Global', '@nestjs/common');
+    importDeclarations.add('PrismaClient', '@prisma/client');
+    classStructure.decorators?.push({ name: 'Global', arguments: [] });
+  }
+
+  for (const modelName of modelNames) {
+    if (!modelOperations.has(modelName)) {
+      continue;
+    }
+    const moduleSourceFile = createModelModule({ ...args, modelName });
+    moduleNames.push(`${modelName}Module`);
+    importDeclarations.add(
+      `${modelName}Module`,
+      relativePath(sourceFile.getFilePath(), moduleSourceFile.getFilePath()),
+    );
+  }
+
+  const moduleOptions: Record<string, string> = {
+    imports: `[${moduleNames.join(', ')}]`,
+  };
+  const providers: string[] = [];
+
+  if (!config.prismaService) {
+    providers.push('PrismaClient');
+  }
+
+  // Resolver of node query (see `relayNode`)
+  if (config.relayNode && [...models.values()].some(model => hasNodeId(model))) {
+    providers.push('NodeResolver');
+    importDeclarations.add(
+      'NodeResolver',
+      relativePath(
+        sourceFile.getFilePath(),
+        getSourceFile({ name: 'Node', type: 'resolver' }).getFilePath(),
+      ),
+    );
+    if (config.prismaService) {
+      providers.push(
+        prismaServiceProvider({ ...args, sourceFile, importDeclarations }),
+      );
+    }
+  }
+
+  if (providers.length > 0) {
+    moduleOptions.providers = `[${providers.join(', ')}]`;
+  }
+
+  if (!config.prismaService) {
+    moduleOptions.exports = '[PrismaClient]';
+  }
+
+  classStructure.decorators?.push({
+    name: 'Module',
+    arguments: [createObjectLiteral(moduleOptions)],
+  });
+
+  sourceFile.set({
+    statements: [...importDeclarations.toStatements(), classStructure],
+  });
+}
+
+function createModelModule(args: EventArguments & { modelName: string }) {
+  const { modelName, models, getSourceFile, config } = args;
+  const sourceFile = getSourceFile({
+    name: modelName,
+    type: 'module',
+  });
+  const importDeclarations = new ImportDeclarationMap();
+  const providers: string[] = [];
+  const moduleExports: string[] = [];
+
+  importDeclarations.add('Module', '@nestjs/common');
+
+  const model = models.get(modelName);
+  const hasRelationFields =
+    config.emitRelationResolvers &&
+    model !== undefined &&
+    getRelationFields({ model, models }).length > 0;
+
+  // Resolver of model or resolver of relation fields only (see `emitRelationResolvers`)
+  if (config.emitResolvers || hasRelationFields) {
+    providers.push(`${modelName}Resolver`);
+    importDeclarations.add(
+      `${modelName}Resolver`,
+      relativePath(
+        sourceFile.getFilePath(),
+        getSourceFile({ name: modelName, type: 'resolver' }).getFilePath(),
+      ),
+    );
+  }
+
+  if (hasRelationFields) {
+    providers.push(`${modelName}Loader`);
+    importDeclarations.add(
+      `${modelName}Loader`,
+      relativePath(
+        sourceFile.getFilePath(),
+        getSourceFile({ name: modelName, type: 'loader' }).getFilePath(),
+      ),
+    );
+  }
+
+  if (config.federation && model && hasReferenceResolver({ ...args, model })) {
+    providers.push(`${modelName}ReferenceResolver`);
+    importDeclarations.add(
+      `${modelName}ReferenceResolver`,
+      relativePath(
+        sourceFile.getFilePath(),
+        getSourceFile({ name: modelName, type: 'reference' }).getFilePath(),
+      ),
+    );
+  }
+
+  if (config.emitServices) {
+    providers.push(`${modelName}Service`);
+    moduleExports.push(`${modelName}Service`);
+    importDeclarations.add(
+      `${modelName}Service`,
+      relativePath(
+        sourceFile.getFilePath(),
+        getSourceFile({ name: modelName, type: 'service' }).getFilePath(),
+      ),
+    );
+  }
+
+  if (config.prismaService) {
+    providers.push(prismaServiceProvider({ ...args, sourceFile, importDeclarations }));
+  }
+
+  sourceFile.set({
+    statements: [
+      ...importDeclarations.toStatements(),
+      {
+        kind: StructureKind.Class,
+        isExported: true,
+        name: `${modelName}Module`,
+        decorators: [
+          {
+            name: 'Module',
+            arguments: [
+              createObjectLiteral({
+                providers: `[${providers.join(', ')}]`,
+                exports: `[${moduleExports.join(', ')}]`,
+              }),
+            ],
+          },
+        ],
+      },
+    ],
+  });
+
+  return sourceFile;
+}
+
+/**
+ * Provide configured prisma service as `PrismaClient`
+ */
+function prismaServiceProvider(
+  args: EventArguments & {
+    sourceFile: SourceFile;
+    importDeclarations: ImportDeclarationMap;
+  },
+) {
+  const { config, output, sourceFile, importDeclarations } = args;
+  ok(config.prismaService, 'prismaService is not configured');
+  const { name, specifier = '@prisma/client' } = config.prismaService;
+  importDeclarations.add('PrismaClient', '@prisma/client');
+  importDeclarations.add(
+    name,
+    specifier.startsWith('.')
+      ? relativePath(sourceFile.getFilePath(), path.posix.join(output, specifier))
+      : specifier,
+  );
+
+  return `{ provide: PrismaClient, useExisting: ${name} }`;
+}
+
+function createObjectLiteral(properties: Record<string, string>) {
+  const entries = Object.entries(properties).map(
+    ([name, value]) => `${name}: ${value}`,
+  );
+  return `{ ${entries.join(', ')} }`;
+}
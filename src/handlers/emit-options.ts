@@ -0,0 +1,37 @@
+import AwaitEventEmitter from 'await-event-emitter';
+
+import { GeneratorConfiguration } from '../types';
+import { complexity } from './complexity';
+import { emitConnections } from './emit-connections';
+import { emitModules } from './emit-modules';
+import { emitPagination } from './emit-pagination';
+import { emitRelationResolvers } from './emit-relation-resolvers';
+import { emitResolvers } from './emit-resolvers';
+import { emitSdl } from './emit-sdl';
+import { emitServices } from './emit-services';
+import { emitSubscriptions } from './emit-subscriptions';
+import { emitZod } from './emit-zod';
+import { federation } from './federation';
+import { relayNode } from './relay-node';
+
+/**
+ * Connect handlers of options which emit additional files
+ * (resolvers, services, schemas, etc.) or extend generated types.
+ */
+export function emitOptions(
+  emitter: AwaitEventEmitter,
+  config: GeneratorConfiguration,
+) {
+  config.emitResolvers && emitResolvers(emitter);
+  config.emitRelationResolvers && emitRelationResolvers(emitter);
+  config.emitServices && emitServices(emitter);
+  config.emitModules && emitModules(emitter);
+  config.emitSDL && emitSdl(emitter);
+  config.emitZod && emitZod(emitter);
+  config.federation && federation(emitter);
+  config.emitConnections && emitConnections(emitter);
+  config.emitPagination && emitPagination(emitter);
+  config.emitSubscriptions && emitSubscriptions(emitter);
+  config.relayNode && relayNode(emitter);
+  config.complexity && complexity(emitter);
+}
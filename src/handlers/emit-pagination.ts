@@ -0,0 +1,162 @@
+import AwaitEventEmitter from 'await-event-emitter';
+import { lowerFirst } from 'lodash';
+import {
+  ClassDeclarationStructure,
+  FunctionDeclarationStructure,
+  StructureKind,
+} from 'ts-morph';
+
+import { getModelOperations } from '../helpers/get-model-operations';
+import { ImportDeclarationMap } from '../helpers/import-declaration-map';
+import { propertyStructure } from '../helpers/property-structure';
+import { relativePath } from '../helpers/relative-path';
+import { EventArguments, OutputType } from '../types';
+
+export function emitPagination(emitter: AwaitEventEmitter) {
+  emitter.on('RootOutputTypes', rootOutputTypes);
+}
+
+/**
+ * Generate offset paginated output type per model
+ * and helper which loads page and total count.
+ * Subcribes on: 'RootOutputTypes'
+ */
+function rootOutputTypes(outputTypes: OutputType[], args: EventArguments) {
+  const { getModelName } = args;
+  const modelOperations = getModelOperations({ outputTypes, getModelName });
+
+  for (const [modelName, operations] of modelOperations) {
+    const findMany = operations.find(o => o.action === 'findMany');
+    if (findMany) {
+      createPaginatedType({ ...args, modelName });
+      createPaginateFunction({
+        ...args,
+        modelName,
+        argsTypeName: findMany.argsTypeName,
+      });
+    }
+  }
+}
+
+function createPaginatedType(args: EventArguments & { modelName: string }) {
+  const { modelName, getSourceFile, config } = args;
+  const name = `Paginated${modelName}`;
+  const sourceFile = getSourceFile({ name, type: 'output' });
+  const importDeclarations = new ImportDeclarationMap();
+  const classStructure: ClassDeclarationStructure = {
+    kind: StructureKind.Class,
+    isExported: true,
+    name,
+    decorators: [{ name: 'ObjectType', arguments: [] }],
+    properties: [
+      createProperty({
+        name: 'items',
+        type: modelName,
+        propertyType: modelName,
+        isList: true,
+      }),
+      createProperty({ name: 'totalCount', type: 'Int', propertyType: 'number' }),
+      createProperty({ name: 'hasMore', type: 'Boolean', propertyType: 'boolean' }),
+    ],
+  };
+
+  importDeclarations.add('Field', config.graphqlModule);
+  importDeclarations.add('ObjectType', config.graphqlModule);
+  importDeclarations.add('Int', config.graphqlModule);
+  importDeclarations.add(
+    modelName,
+    relativePath(
+      sourceFile.getFilePath(),
+      getSourceFile({ name: modelName, type: 'model' }).getFilePath(),
+    ),
+  );
+
+  sourceFile.set({
+    statements: [...importDeclarations.toStatements(), classStructure],
+  });
+}
+
+function createProperty(args: {
+  name: string;
+  type: string;
+  propertyType: string;
+  isList?: boolean;
+}) {
+  const { name, type, propertyType, isList = false } = args;
+  const property = propertyStructure({ name, propertyType: [propertyType], isList });
+  property.decorators?.push({
+    name: 'Field',
+    arguments: [isList ? `() => [${type}]` : `() => ${type}`, '{nullable:false}'],
+  });
+  return property;
+}
+
+function createPaginateFunction(
+  args: EventArguments & { modelName: string; argsTypeName: string },
+) {
+  const { modelName, argsTypeName, getSourceFile, models, fieldSettings } = args;
+  const sourceFile = getSourceFile({ name: modelName, type: 'paginate' });
+  const importDeclarations = new ImportDeclarationMap();
+  const delegateName = lowerFirst(modelName);
+  // Hidden fields must not be returned, even if they are not in graphql schema
+  const hiddenFields = (models.get(modelName)?.fields || [])
+    .filter(
+      field =>
+        field.kind !== 'object' &&
+        fieldSettings
+          .get(modelName)
+          ?.get(field.name)
+          ?.shouldHideField({ name: modelName, output: true }),
+    )
+    .map(field => field.name);
+  const items =
+    hiddenFields.length > 0
+      ? `items.map(({ ${hiddenFields.join(', ')}, ...item }) => item)`
+      : 'items';
+  const functionStructure: FunctionDeclarationStructure = {
+    kind: StructureKind.Function,
+    isExported: true,
+    isAsync: true,
+    name: `paginate${modelName}`,
+    parameters: [
+      { name: 'prisma', type: 'PrismaClient' },
+      { name: 'args', type: argsTypeName },
+    ],
+    statements: [
+      `const findManyArgs: Prisma.${modelName}FindManyArgs = args;`,
+      'const { take } = findManyArgs;',
+      [
+        'const [items, totalCount] = await prisma.$transaction([',
+        '  // One more item is requested to know if there are more items',
+        `  prisma.${delegateName}.findMany({ ...findManyArgs, take: take && take + Math.sign(take) }),`,
+        `  prisma.${delegateName}.count({ where: findManyArgs.where }),`,
+        ']);',
+      ].join('\n'),
+      'let hasMore = false;',
+      [
+        "if (typeof take === 'number' && items.length > Math.abs(take)) {",
+        '  hasMore = true;',
+        '  // Extra item is first for backward pagination (negative take)',
+        '  items.splice(take > 0 ? -1 : 0, 1);',
+        '}',
+      ].join('\n'),
+      ['return {', `  items: ${items},`, '  totalCount,', '  hasMore,', '};'].join(
+        '\n',
+      ),
+    ],
+  };
+
+  importDeclarations.add('Prisma', '@prisma/client');
+  importDeclarations.add('PrismaClient', '@prisma/client');
+  importDeclarations.add(
+    argsTypeName,
+    relativePath(
+      sourceFile.getFilePath(),
+      getSourceFile({ name: argsTypeName, type: 'args' }).getFilePath(),
+    ),
+  );
+
+  sourceFile.set({
+    statements: [...importDeclarations.toStatements(), functionStructure],
+  });
+}
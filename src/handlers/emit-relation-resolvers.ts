@@ -0,0 +1,250 @@
+import AwaitEventEmitter from 'await-event-emitter';
+import { lowerFirst } from 'lodash';
+import {
+  ClassDeclarationStructure,
+  MethodDeclarationStructure,
+  PropertyDeclarationStructure,
+  Scope,
+  StructureKind,
+} from 'ts-morph';
+
+import { getFieldArgsTypeName } from '../helpers/get-args-type-name';
+import { getPropertyType } from '../helpers/get-property-type';
+import { getRelationFields, RelationKey } from '../helpers/get-relation-key';
+import { ImportDeclarationMap } from '../helpers/import-declaration-map';
+import { createRelationResolvers } from '../helpers/relation-resolvers';
+import { relativePath } from '../helpers/relative-path';
+import { EventArguments, Field, Model, OutputType } from '../types';
+
+export function emitRelationResolvers(emitter: AwaitEventEmitter) {
+  const modelOutputTypes: OutputType[] = [];
+  emitter.on('ModelOutputType', (outputType: OutputType, args: EventArguments) => {
+    modelOutputTypes.push(outputType);
+    modelOutputType(outputType, args);
+  });
+  emitter.on('RootOutputTypes', (_: OutputType[], args: EventArguments) => {
+    if (!args.config.emitResolvers) {
+      createRelationResolvers(modelOutputTypes, args);
+    }
+  });
+}
+
+/**
+ * Generate data loader class per model, which batches loading of relation fields.
+ * Subcribes on: 'ModelOutputType'
+ */
+function modelOutputType(outputType: OutputType, args: EventArguments) {
+  const { models, getSourceFile } = args;
+  const model = models.get(outputType.name);
+  const relationFields = model ? getRelationFields({ model, models }) : [];
+  if (!model || relationFields.length === 0) {
+    return;
+  }
+  const sourceFile = getSourceFile({
+    name: model.name,
+    type: 'loader',
+  });
+  const importDeclarations = new ImportDeclarationMap();
+  const classStructure: ClassDeclarationStructure = {
+    kind: StructureKind.Class,
+    isExported: true,
+    name: `${model.name}Loader`,
+    decorators: [
+      {
+        name: 'Injectable',
+        arguments: ['{ scope: Scope.REQUEST }'],
+      },
+    ],
+    properties: [],
+    ctors: [
+      {
+        parameters: [
+          {
+            name: 'prisma',
+            type: 'PrismaClient',
+            scope: Scope.Private,
+            isReadonly: true,
+          },
+        ],
+      },
+    ],
+    methods: [],
+  };
+
+  for (const { field: modelField, relationKey } of relationFields) {
+    const field = outputType.fields.find(f => f.name === modelField.name);
+    if (!field) {
+      continue;
+    }
+    const argsType =
+      field.args.length > 0
+        ? getFieldArgsTypeName({ modelName: model.name, fieldName: field.name })
+        : undefined;
+
+    if (argsType) {
+      importDeclarations.add(
+        argsType,
+        relativePath(
+          sourceFile.getFilePath(),
+          getSourceFile({ name: argsType, type: 'args' }).getFilePath(),
+        ),
+      );
+    }
+    importDeclarations.add(
+      modelField.type,
+      relativePath(
+        sourceFile.getFilePath(),
+        getSourceFile({ name: modelField.type, type: 'model' }).getFilePath(),
+      ),
+    );
+
+    const { property, method } = createLoader({
+      model,
+      modelField,
+      relationKey,
+      argsType,
+    });
+    classStructure.properties?.push(property);
+    classStructure.methods?.push(method);
+  }
+
+  classStructure.methods?.push(
+    {
+      kind: StructureKind.Method,
+      name: 'getLoader',
+      scope: Scope.Private,
+      typeParameters: ['K', 'V'],
+      parameters: [
+        { name: 'loaders', type: 'Map<string, DataLoader<K, V, string>>' },
+        { name: 'name', type: 'string' },
+        { name: 'batchLoad', type: 'DataLoader.BatchLoadFn<K, V>' },
+      ],
+      returnType: 'DataLoader<K, V, string>',
+      statements: [
+        'let loader = loaders.get(name);',
+        'if (!loader) {',
+        'loader = new DataLoader(batchLoad, { cacheKeyFn: key => this.toKey(key) });',
+        'loaders.set(name, loader);',
+        '}',
+        'return loader;',
+      ],
+    },
+    {
+      kind: StructureKind.Method,
+      name: 'toKey',
+      scope: Scope.Private,
+      parameters: [{ name: 'value', type: 'unknown' }],
+      returnType: 'string',
+      statements: [
+        '// Keys of DateTime, BigInt, Decimal and Bytes fields are not comparable by reference',
+        'if (value instanceof Date) {',
+        'return value.toISOString();',
+        '}',
+        'if (Buffer.isBuffer(value)) {',
+        "return value.toString('base64');",
+        '}',
+        'return String(value);',
+      ],
+    },
+  );
+
+  importDeclarations.add('Injectable', '@nestjs/common');
+  importDeclarations.add('Scope', '@nestjs/common');
+  importDeclarations.add('Prisma', '@prisma/client');
+  importDeclarations.add('PrismaClient', '@prisma/client');
+  importDeclarations.create({
+    name: 'DataLoader',
+    from: 'dataloader',
+    defaultImport: true,
+  });
+
+  sourceFile.set({
+    statements: [...importDeclarations.toStatements(), classStructure],
+  });
+}
+
+function createLoader(args: {
+  model: Model;
+  modelField: Field;
+  relationKey: RelationKey;
+  argsType?: string;
+}): { property: PropertyDeclarationStructure; method: MethodDeclarationStructure } {
+  const { model, modelField, relationKey, argsType } = args;
+  const { parentField, relatedField } = relationKey;
+  const keyType = getPropertyType({
+    location: 'scalar',
+    type: String(model.fields.find(f => f.name === parentField)?.type),
+  })[0];
+  const valueType = modelField.isList
+    ? `${modelField.type}[]`
+    : `${modelField.type} | null`;
+  const loadersName = `${modelField.name}Loaders`;
+  const loaderName = argsType ? 'JSON.stringify(args)' : "''";
+  const findManyArgsType = `Prisma.${modelField.type}FindManyArgs`;
+  const statements: string[] = [];
+
+  if (modelField.isList) {
+    statements.push(
+      `const findManyArgs: ${findManyArgsType} = ${argsType ? 'args' : '{}'};`,
+    );
+  }
+
+  if (!relatedField) {
+    // Load related records through parent model (implicit many-to-many)
+    const select = modelField.isList ? 'findManyArgs' : 'true';
+    const fallback = modelField.isList ? '[]' : 'null';
+    statements.push(
+      `const parents = await this.prisma.${lowerFirst(model.name)}.findMany({
+        where: { ${parentField}: { in: [...keys] } },
+        select: { ${parentField}: true, ${modelField.name}: ${select} },
+      });`,
+      `return keys.map(key => parents.find(parent => this.toKey(parent.${parentField}) === this.toKey(key))?.${modelField.name} ?? ${fallback});`,
+    );
+  } else if (modelField.isList) {
+    statements.push(
+      `const findMany = (where: Prisma.${modelField.type}WhereInput) =>
+        this.prisma.${lowerFirst(modelField.type)}.findMany({
+          ...findManyArgs,
+          where: { AND: [findManyArgs.where ?? {}, where] },
+        });`,
+      `if (
+        findManyArgs.take !== undefined ||
+        findManyArgs.skip !== undefined ||
+        findManyArgs.cursor
+      ) {
+        // Pagination is applied per parent record, one query per key
+        return Promise.all(keys.map(key => findMany({ ${relatedField}: key })));
+      }`,
+      `const items = await findMany({ ${relatedField}: { in: [...keys] } });`,
+      `return keys.map(key => items.filter(item => this.toKey(item.${relatedField}) === this.toKey(key)));`,
+    );
+  } else {
+    statements.push(
+      `const items = await this.prisma.${lowerFirst(modelField.type)}.findMany({
+        where: { ${relatedField}: { in: [...keys] } },
+      });`,
+      `return keys.map(key => items.find(item => this.toKey(item.${relatedField}) === this.toKey(key)) ?? null);`,
+    );
+  }
+
+  return {
+    property: {
+      kind: StructureKind.Property,
+      name: loadersName,
+      scope: Scope.Private,
+      isReadonly: true,
+      initializer: `new Map<string, DataLoader<${keyType}, ${valueType}, string>>()`,
+    },
+    method: {
+      kind: StructureKind.Method,
+      name: modelField.name,
+      parameters: argsType ? [{ name: 'args', type: argsType, initializer: '{}' }] : [],
+      returnType: `DataLoader<${keyType}, ${valueType}, string>`,
+      statements: [
+        `return this.getLoader(this.${loadersName}, ${loaderName}, async (keys: readonly ${keyType}[]) => {`,
+        ...statements,
+        '});',
+      ],
+    },
+  };
+}
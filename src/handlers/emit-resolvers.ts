@@ -0,0 +1,188 @@
+import AwaitEventEmitter from 'await-event-emitter';
+import JSON5 from 'json5';
+import { lowerFirst } from 'lodash';
+import {
+  ClassDeclarationStructure,
+  MethodDeclarationStructure,
+  Scope,
+  StructureKind,
+} from 'ts-morph';
+
+import { getDelegateStatements } from '../helpers/get-delegate-statements';
+import {
+  getArgsMapStatement,
+  hasGraphqlFieldNames,
+} from '../helpers/get-graphql-field-name';
+import { getGraphqlImport } from '../helpers/get-graphql-import';
+import { getModelOperations, ModelOperation } from '../helpers/get-model-operations';
+import { getOutputTypeName } from '../helpers/get-output-type-name';
+import { ImportDeclarationMap } from '../helpers/import-declaration-map';
+import { addRelationResolvers } from '../helpers/relation-resolvers';
+import { relativePath } from '../helpers/relative-path';
+import { EventArguments, OutputType } from '../types';
+
+const nestjsGraphql = '@nestjs/graphql';
+
+export function emitResolvers(emitter: AwaitEventEmitter) {
+  const modelOutputTypes = new Map<string, OutputType>();
+  emitter.on('ModelOutputType', (outputType: OutputType) => {
+    modelOutputTypes.set(outputType.name, outputType);
+  });
+  emitter.on('RootOutputTypes', (outputTypes: OutputType[], args: EventArguments) =>
+    rootOutputTypes(outputTypes, { ...args, modelOutputTypes }),
+  );
+}
+
+/**
+ * Generate resolver class per model with query/mutation for each operation.
+ * Subcribes on: 'ModelOutputType', 'RootOutputTypes'
+ */
+function rootOutputTypes(
+  outputTypes: OutputType[],
+  args: EventArguments & { modelOutputTypes: Map<string, OutputType> },
+) {
+  const { getModelName } = args;
+  const modelOperations = getModelOperations({ outputTypes, getModelName });
+
+  for (const [modelName, operations] of modelOperations) {
+    createResolver({ ...args, modelName, operations });
+  }
+}
+
+function createResolver(
+  args: EventArguments & {
+    modelName: string;
+    operations: ModelOperation[];
+    modelOutputTypes: Map<string, OutputType>;
+  },
+) {
+  const { modelName, operations, getSourceFile, config } = args;
+  const sourceFile = getSourceFile({
+    name: modelName,
+    type: 'resolver',
+  });
+  const importDeclarations = new ImportDeclarationMap();
+  const className = `${modelName}Resolver`;
+  // Use generated service if enabled, prisma client otherwise
+  const delegate = config.emitServices
+    ? { name: `${lowerFirst(modelName)}Service`, type: `${modelName}Service` }
+    : { name: 'prisma', type: 'PrismaClient' };
+  const classStructure: ClassDeclarationStructure = {
+    kind: StructureKind.Class,
+    isExported: true,
+    name: className,
+    decorators: [
+      {
+        name: 'Resolver',
+        arguments: [`() => ${modelName}`],
+      },
+    ],
+    ctors: [
+      {
+        parameters: [
+          {
+            name: delegate.name,
+            type: delegate.type,
+            scope: Scope.Private,
+            isReadonly: true,
+          },
+        ],
+      },
+    ],
+    methods: [],
+  };
+
+  importDeclarations.add('Resolver', nestjsGraphql);
+  importDeclarations.add('Args', nestjsGraphql);
+  // Args with graphql names of fields are passed to prisma by prisma names
+  const isArgsMapped = hasGraphqlFieldNames(args);
+  if (isArgsMapped) {
+    importDeclarations.add('plainToInstance', 'class-transformer');
+  }
+  if (!config.emitServices) {
+    importDeclarations.add('Prisma', '@prisma/client');
+  }
+  importDeclarations.add(
+    delegate.type,
+    config.emitServices
+      ? relativePath(
+          sourceFile.getFilePath(),
+          getSourceFile({ name: modelName, type: 'service' }).getFilePath(),
+        )
+      : '@prisma/client',
+  );
+  importDeclarations.add(
+    modelName,
+    relativePath(
+      sourceFile.getFilePath(),
+      getSourceFile({ name: modelName, type: 'model' }).getFilePath(),
+    ),
+  );
+
+  for (const { rootType, action, argsTypeName, field } of operations) {
+    const { location, isList, namespace } = field.outputType;
+    let outputTypeName = String(field.outputType.type);
+    let fileType = 'model';
+    if (namespace !== 'model') {
+      fileType = 'output';
+      outputTypeName = getOutputTypeName(outputTypeName);
+    }
+    const graphqlImport = getGraphqlImport({
+      config,
+      sourceFile,
+      fileType,
+      location,
+      typeName: outputTypeName,
+      getSourceFile,
+    });
+
+    if (graphqlImport.specifier) {
+      importDeclarations.add(graphqlImport.name, graphqlImport.specifier);
+    }
+    importDeclarations.add(rootType, nestjsGraphql);
+    importDeclarations.add(
+      argsTypeName,
+      relativePath(
+        sourceFile.getFilePath(),
+        getSourceFile({ name: argsTypeName, type: 'args' }).getFilePath(),
+      ),
+    );
+
+    const statements = config.emitServices
+      ? [`return this.${delegate.name}.${action}(args);`]
+      : getDelegateStatements({ client: 'this.prisma', modelName, action });
+    if (isArgsMapped) {
+      statements.unshift(getArgsMapStatement(argsTypeName));
+    }
+    const method: MethodDeclarationStructure = {
+      kind: StructureKind.Method,
+      name: field.name,
+      decorators: [
+        {
+          name: rootType,
+          arguments: [
+            isList ? `() => [${graphqlImport.name}]` : `() => ${graphqlImport.name}`,
+            JSON5.stringify({ nullable: Boolean(field.isNullable) }),
+          ],
+        },
+      ],
+      parameters: [
+        {
+          name: isArgsMapped ? 'graphqlArgs' : 'args',
+          type: argsTypeName,
+          decorators: [{ name: 'Args', arguments: [] }],
+        },
+      ],
+      statements,
+    };
+    classStructure.methods?.push(method);
+  }
+
+  if (config.emitRelationResolvers) {
+    addRelationResolvers({ ...args, sourceFile, classStructure, importDeclarations });
+  }
+
+  sourceFile.set({
+    statements: [...importDeclarations.toStatements(), classStructure],
+  });
+}
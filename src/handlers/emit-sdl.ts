@@ -0,0 +1,267 @@
+import AwaitEventEmitter from 'await-event-emitter';
+
+import { getModelOperations, ModelOperation } from '../helpers/get-model-operations';
+import { getOutputTypeName } from '../helpers/get-output-type-name';
+import {
+  getSdlEnums,
+  getSdlType,
+  getSdlUnions,
+  SdlEnum,
+  SdlField,
+  SdlType,
+  SdlUnion,
+} from '../helpers/get-sdl-types';
+import { EventArguments, OutputType, SchemaEnum } from '../types';
+
+const builtinScalars = new Set(['ID', 'Int', 'Float', 'String', 'Boolean']);
+
+// Scalars of @nestjs/graphql
+const scalarNames: Record<string, string | undefined> = {
+  Date: 'DateTime',
+  GraphQLISODateTime: 'DateTime',
+  GraphQLTimestamp: 'Timestamp',
+};
+
+export function emitSdl(emitter: AwaitEventEmitter) {
+  const operations: ModelOperation[] = [];
+  // Values of enums, which are not declared in generated files (see `enumSource`)
+  const enumValues = new Map<string, string[]>();
+  emitter.on('EnumType', (enumType: SchemaEnum) => {
+    enumValues.set(enumType.name, enumType.values);
+  });
+  emitter.on('RootOutputTypes', (outputTypes: OutputType[], args: EventArguments) => {
+    const modelOperations = getModelOperations({
+      outputTypes,
+      getModelName: args.getModelName,
+    });
+    operations.push(...[...modelOperations.values()].flat());
+  });
+  emitter.on('GenerateFiles', (args: EventArguments) =>
+    generateFiles({ ...args, operations, enumValues }),
+  );
+}
+
+/**
+ * Write schema.graphql from classes and enums of project (after all handlers),
+ * so SDL follows all decisions made by other handlers (hidden fields, settings, etc.).
+ * Query and mutation operations (and args of fields) exist only with resolvers.
+ * Subcribes on: 'EnumType', 'RootOutputTypes', 'GenerateFiles'
+ */
+async function generateFiles(
+  args: EventArguments & {
+    operations: ModelOperation[];
+    enumValues: Map<string, string[]>;
+  },
+) {
+  const { project, output, config, enumValues } = args;
+  const operations = config.emitResolvers ? args.operations : [];
+  const types: SdlType[] = [];
+  const enums: SdlEnum[] = [];
+  const unions: SdlUnion[] = [];
+  // Typescript name to graphql name
+  const typeNames = new Map<string, string>();
+  // Resolver of `node(id)` query (see `relayNode`), which is not model operation
+  let hasNodeResolver = false;
+
+  for (const sourceFile of project.getSourceFiles()) {
+    for (const classDeclaration of sourceFile.getClasses()) {
+      if (classDeclaration.getName() === 'NodeResolver') {
+        hasNodeResolver = true;
+      }
+      const sdlType = getSdlType(classDeclaration);
+      if (sdlType) {
+        types.push(sdlType);
+        typeNames.set(String(classDeclaration.getName()), sdlType.name);
+      }
+    }
+    for (const sdlEnum of getSdlEnums(sourceFile)) {
+      if (sdlEnum.values.length === 0) {
+        sdlEnum.values = enumValues.get(sdlEnum.tsName) ?? [];
+      }
+      enums.push(sdlEnum);
+      typeNames.set(sdlEnum.tsName, sdlEnum.name);
+    }
+    for (const sdlUnion of getSdlUnions(sourceFile)) {
+      unions.push(sdlUnion);
+      typeNames.set(sdlUnion.tsName, sdlUnion.name);
+    }
+  }
+
+  const argsTypes = new Map(types.filter(t => t.kind === 'args').map(t => [t.name, t]));
+  const scalars = new Set<string>();
+  const getTypeName = (name: string) => {
+    if (builtinScalars.has(name)) {
+      return name;
+    }
+    const typeName = typeNames.get(name);
+    if (typeName) {
+      return typeName;
+    }
+    // Custom scalar, e.g. GraphQLJSON -> JSON
+    const scalarName = scalarNames[name] ?? name.replace(/^GraphQL/, '');
+    scalars.add(scalarName);
+    return scalarName;
+  };
+  const printField = (field: SdlField, indent: string) => {
+    const lines = printDescription(field.description, indent);
+    let line = `${indent}${field.name}`;
+    const fieldArgs =
+      config.emitResolvers && field.args && argsTypes.get(field.args)?.fields;
+    if (fieldArgs && fieldArgs.length > 0) {
+      line += `(${fieldArgs.map(a => printField(a, '').join(' ')).join(', ')})`;
+    }
+    line += `: ${printTypeReference(field, getTypeName(field.typeName))}`;
+    if (field.defaultValue !== undefined) {
+      const isEnum = enums.some(sdlEnum => sdlEnum.tsName === field.typeName);
+      line += ` = ${printValue(field.defaultValue, isEnum)}`;
+    }
+    if (field.deprecationReason) {
+      line += ` @deprecated(reason: ${JSON.stringify(field.deprecationReason)})`;
+    }
+    lines.push(line);
+    return lines;
+  };
+
+  const blocks: string[] = [];
+
+  for (const type of sortByName(types.filter(t => t.kind !== 'args'))) {
+    blocks.push(
+      [
+        ...printDescription(type.description, ''),
+        `${type.kind} ${type.name}${printImplements(type, getTypeName)} {`,
+        ...type.fields.flatMap(field => printField(field, '  ')),
+        '}',
+      ].join('\n'),
+    );
+  }
+
+  for (const sdlUnion of sortByName(unions)) {
+    blocks.push(
+      `union ${sdlUnion.name} = ${sdlUnion.types
+        .map(name => getTypeName(name))
+        .join(' | ')}`,
+    );
+  }
+
+  const nodeQuery: SdlField | undefined =
+    hasNodeResolver && config.emitResolvers
+      ? {
+          name: 'node',
+          typeName: 'Node',
+          isList: false,
+          nullable: true,
+          args: 'NodeArgs',
+        }
+      : undefined;
+  if (nodeQuery) {
+    argsTypes.set('NodeArgs', {
+      kind: 'args',
+      name: 'NodeArgs',
+      fields: [{ name: 'id', typeName: 'ID', isList: false, nullable: false }],
+    });
+  }
+
+  for (const rootType of ['Query', 'Mutation']) {
+    const fields: SdlField[] = operations
+      .filter(operation => operation.rootType === rootType)
+      .map(({ field, argsTypeName }) => ({
+        name: field.name,
+        typeName:
+          field.outputType.namespace === 'model'
+            ? String(field.outputType.type)
+            : getOutputTypeName(String(field.outputType.type)),
+        isList: field.outputType.isList,
+        nullable: Boolean(field.isNullable),
+        args: argsTypeName,
+      }));
+    if (rootType === 'Query' && nodeQuery) {
+      fields.push(nodeQuery);
+    }
+    if (fields.length > 0) {
+      blocks.push(
+        [
+          `type ${rootType} {`,
+          ...sortByName(fields).flatMap(field => printField(field, '  ')),
+          '}',
+        ].join('\n'),
+      );
+    }
+  }
+
+  const enumBlocks = sortByName(enums).map(sdlEnum =>
+    [
+      ...printDescription(sdlEnum.description, ''),
+      `enum ${sdlEnum.name} {`,
+      ...sdlEnum.values.flatMap(value =>
+        printEnumValue(value, sdlEnum.valuesMap?.[value]),
+      ),
+      '}',
+    ].join('\n'),
+  );
+  const scalarBlocks = [...scalars].sort().map(name => `scalar ${name}`);
+
+  const fileSystem = project.getFileSystem();
+  await fileSystem.mkdir(output);
+  await fileSystem.writeFile(
+    `${output}/schema.graphql`,
+    [...scalarBlocks, ...enumBlocks, ...blocks].join('\n\n') + '\n',
+  );
+}
+
+function printDescription(description: string | undefined, indent: string) {
+  if (!description) {
+    return [];
+  }
+  return [`${indent}"""${description.replace(/"""/g, '\\"""')}"""`];
+}
+
+/**
+ * Print value as graphql literal (e.g. `{ a: [1, 2] }` as `{a: [1, 2]}`).
+ */
+function printValue(value: unknown, isEnum: boolean): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => printValue(item, isEnum)).join(', ')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.entries(value)
+      .map(([key, item]) => `${key}: ${printValue(item, false)}`)
+      .join(', ')}}`;
+  }
+  if (isEnum && typeof value === 'string') {
+    return value;
+  }
+  return value === undefined ? 'null' : JSON.stringify(value);
+}
+
+function printEnumValue(
+  value: string,
+  options?: Pick<SdlField, 'description' | 'deprecationReason'>,
+) {
+  let line = `  ${value}`;
+  if (options?.deprecationReason) {
+    line += ` @deprecated(reason: ${JSON.stringify(options.deprecationReason)})`;
+  }
+  return [...printDescription(options?.description, '  '), line];
+}
+
+function printImplements(type: SdlType, getTypeName: (name: string) => string) {
+  const names = type.implements?.map(name => getTypeName(name)) ?? [];
+  return names.length > 0 ? ` implements ${names.join(' & ')}` : '';
+}
+
+function printTypeReference(field: SdlField, typeName: string) {
+  const { isList, nullable } = field;
+  if (!isList) {
+    return nullable ? typeName : `${typeName}!`;
+  }
+  const item = ['items', 'itemsAndList'].includes(String(nullable))
+    ? typeName
+    : `${typeName}!`;
+  return ['itemsAndList', true].includes(nullable as string | boolean)
+    ? `[${item}]`
+    : `[${item}]!`;
+}
+
+function sortByName<T extends { name: string }>(items: T[]) {
+  return [...items].sort((a, b) => a.name.localeCompare(b.name));
+}
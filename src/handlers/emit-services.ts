@@ -0,0 +1,90 @@
+import AwaitEventEmitter from 'await-event-emitter';
+import {
+  ClassDeclarationStructure,
+  MethodDeclarationStructure,
+  Scope,
+  StructureKind,
+} from 'ts-morph';
+
+import { getDelegateStatements } from '../helpers/get-delegate-statements';
+import { getModelOperations, ModelOperation } from '../helpers/get-model-operations';
+import { ImportDeclarationMap } from '../helpers/import-declaration-map';
+import { relativePath } from '../helpers/relative-path';
+import { EventArguments, OutputType } from '../types';
+
+export function emitServices(emitter: AwaitEventEmitter) {
+  emitter.on('RootOutputTypes', rootOutputTypes);
+}
+
+/**
+ * Generate injectable service per model which wraps prisma delegate.
+ * Subcribes on: 'RootOutputTypes'
+ */
+function rootOutputTypes(outputTypes: OutputType[], args: EventArguments) {
+  const { getModelName } = args;
+  const modelOperations = getModelOperations({ outputTypes, getModelName });
+
+  for (const [modelName, operations] of modelOperations) {
+    createService({ ...args, modelName, operations });
+  }
+}
+
+function createService(
+  args: EventArguments & { modelName: string; operations: ModelOperation[] },
+) {
+  const { modelName, operations, getSourceFile } = args;
+  const sourceFile = getSourceFile({
+    name: modelName,
+    type: 'service',
+  });
+  const importDeclarations = new ImportDeclarationMap();
+  const classStructure: ClassDeclarationStructure = {
+    kind: StructureKind.Class,
+    isExported: true,
+    name: `${modelName}Service`,
+    decorators: [
+      {
+        name: 'Injectable',
+        arguments: [],
+      },
+    ],
+    ctors: [
+      {
+        parameters: [
+          {
+            name: 'prisma',
+            type: 'PrismaClient',
+            scope: Scope.Private,
+            isReadonly: true,
+          },
+        ],
+      },
+    ],
+    methods: [],
+  };
+
+  importDeclarations.add('Injectable', '@nestjs/common');
+  importDeclarations.add('Prisma', '@prisma/client');
+  importDeclarations.add('PrismaClient', '@prisma/client');
+
+  for (const { action, argsTypeName } of operations) {
+    importDeclarations.add(
+      argsTypeName,
+      relativePath(
+        sourceFile.getFilePath(),
+        getSourceFile({ name: argsTypeName, type: 'args' }).getFilePath(),
+      ),
+    );
+    const method: MethodDeclarationStructure = {
+      kind: StructureKind.Method,
+      name: action,
+      parameters: [{ name: 'args', type: argsTypeName }],
+      statements: getDelegateStatements({ client: 'this.prisma', modelName, action }),
+    };
+    classStructure.methods?.push(method);
+  }
+
+  sourceFile.set({
+    statements: [...importDeclarations.toStatements(), classStructure],
+  });
+}
@@ -0,0 +1,121 @@
+import AwaitEventEmitter from 'await-event-emitter';
+import { lowerFirst } from 'lodash';
+import { StructureKind } from 'ts-morph';
+
+import { getGraphqlInputType } from '../helpers/get-graphql-input-type';
+import { getModelOperations } from '../helpers/get-model-operations';
+import { ImportDeclarationMap } from '../helpers/import-declaration-map';
+import { propertyStructure } from '../helpers/property-structure';
+import { relativePath } from '../helpers/relative-path';
+import { EventArguments, OutputType } from '../types';
+
+export function emitSubscriptions(emitter: AwaitEventEmitter) {
+  emitter.on('RootOutputTypes', rootOutputTypes);
+}
+
+/**
+ * Generate payload types of model change events (created, updated, deleted)
+ * and args to filter them.
+ * Subcribes on: 'RootOutputTypes'
+ */
+function rootOutputTypes(outputTypes: OutputType[], args: EventArguments) {
+  const { getModelName } = args;
+  const modelOperations = getModelOperations({ outputTypes, getModelName });
+
+  for (const [modelName, operations] of modelOperations) {
+    for (const event of ['Created', 'Updated', 'Deleted']) {
+      createPayload({ ...args, modelName, name: `${modelName}${event}` });
+    }
+
+    const whereArgument = operations
+      .find(o => o.action === 'findMany')
+      ?.field.args.find(a => a.name === 'where');
+    if (whereArgument) {
+      createFilterArgs({
+        ...args,
+        modelName,
+        whereInputName: String(getGraphqlInputType(whereArgument.inputTypes).type),
+      });
+    }
+  }
+}
+
+function createPayload(args: EventArguments & { modelName: string; name: string }) {
+  const { modelName, name, getSourceFile, config } = args;
+  const sourceFile = getSourceFile({ name, type: 'output' });
+  const importDeclarations = new ImportDeclarationMap();
+  const property = propertyStructure({
+    name: lowerFirst(modelName),
+    propertyType: [modelName],
+    isList: false,
+  });
+
+  property.decorators?.push({
+    name: 'Field',
+    arguments: [`() => ${modelName}`, '{nullable:false}'],
+  });
+  importDeclarations.add('Field', config.graphqlModule);
+  importDeclarations.add('ObjectType', config.graphqlModule);
+  importDeclarations.add(
+    modelName,
+    relativePath(
+      sourceFile.getFilePath(),
+      getSourceFile({ name: modelName, type: 'model' }).getFilePath(),
+    ),
+  );
+
+  sourceFile.set({
+    statements: [
+      ...importDeclarations.toStatements(),
+      {
+        kind: StructureKind.Class,
+        isExported: true,
+        name,
+        decorators: [{ name: 'ObjectType', arguments: [] }],
+        properties: [property],
+      },
+    ],
+  });
+}
+
+function createFilterArgs(
+  args: EventArguments & { modelName: string; whereInputName: string },
+) {
+  const { modelName, whereInputName, getSourceFile, config } = args;
+  const name = `${modelName}SubscriptionFilterArgs`;
+  const sourceFile = getSourceFile({ name, type: 'args' });
+  const importDeclarations = new ImportDeclarationMap();
+  const property = propertyStructure({
+    name: 'where',
+    propertyType: [whereInputName],
+    isList: false,
+    isNullable: true,
+  });
+
+  property.decorators?.push({
+    name: 'Field',
+    arguments: [`() => ${whereInputName}`, '{nullable:true}'],
+  });
+  importDeclarations.add('Field', config.graphqlModule);
+  importDeclarations.add('ArgsType', config.graphqlModule);
+  importDeclarations.add(
+    whereInputName,
+    relativePath(
+      sourceFile.getFilePath(),
+      getSourceFile({ name: whereInputName, type: 'input' }).getFilePath(),
+    ),
+  );
+
+  sourceFile.set({
+    statements: [
+      ...importDeclarations.toStatements(),
+      {
+        kind: StructureKind.Class,
+        isExported: true,
+        name,
+        decorators: [{ name: 'ArgsType', arguments: [] }],
+        properties: [property],
+      },
+    ],
+  });
+}
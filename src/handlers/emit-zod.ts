@@ -0,0 +1,252 @@
+import AwaitEventEmitter from 'await-event-emitter';
+import {
+  StructureKind,
+  VariableDeclarationKind,
+  VariableStatementStructure,
+} from 'ts-morph';
+
+import { getGraphqlImport } from '../helpers/get-graphql-import';
+import { getGraphqlInputType } from '../helpers/get-graphql-input-type';
+import { ImportDeclarationMap } from '../helpers/import-declaration-map';
+import { relativePath } from '../helpers/relative-path';
+import { EventArguments, FieldLocation, InputType } from '../types';
+
+export function emitZod(emitter: AwaitEventEmitter) {
+  emitter.on('InputType', inputType);
+}
+
+/**
+ * Generate zod schema for input/args class.
+ * Subcribes on: 'InputType'
+ */
+function inputType(
+  args: EventArguments & {
+    inputType: InputType;
+    fileType: string;
+  },
+) {
+  const {
+    inputType,
+    fileType,
+    getSourceFile,
+    config,
+    getModelName,
+    models,
+    fieldSettings,
+  } = args;
+  const sourceFile = getSourceFile({
+    name: inputType.name,
+    type: 'schema',
+  });
+  const importDeclarations = new ImportDeclarationMap();
+  const schemaName = getSchemaName(inputType.name);
+  const model = models.get(getModelName(inputType.name) || '');
+  const modelFieldSettings = model && fieldSettings.get(model.name);
+  const useInputType = config.useInputType.find(x =>
+    inputType.name.includes(x.typeName),
+  );
+  const shape: string[] = [];
+
+  importDeclarations.add('z', 'zod');
+  importDeclarations.add(
+    'Nullable',
+    relativePath(sourceFile.getFilePath(), nullableTypeFile(args).getFilePath()),
+  );
+  importDeclarations.add(
+    inputType.name,
+    relativePath(
+      sourceFile.getFilePath(),
+      getSourceFile({ name: inputType.name, type: fileType }).getFilePath(),
+    ),
+  );
+
+  for (const field of inputType.fields) {
+    const { inputTypes, isNullable, isRequired, name } = field;
+    if (inputTypes.length === 0) {
+      continue;
+    }
+    const usePattern = useInputType?.ALL || useInputType?.[name];
+    const { isList, location, type } = getGraphqlInputType(inputTypes, usePattern);
+    const typeName = String(type);
+    const propertySettings = modelFieldSettings?.get(name)?.getPropertyType({
+      name: inputType.name,
+      input: true,
+    });
+    let zodTypes = ['z.any()'];
+
+    if (!propertySettings) {
+      zodTypes = getZodTypes({ location, typeName });
+
+      if (typeName === 'Decimal') {
+        importDeclarations.add('Decimal', '@prisma/client/runtime');
+      } else if (typeName === 'Json') {
+        importDeclarations.add(
+          getSchemaName(typeName),
+          relativePath(sourceFile.getFilePath(), jsonSchemaFile(args).getFilePath()),
+        );
+      } else if (location === 'enumTypes') {
+        const graphqlImport = getGraphqlImport({
+          config,
+          sourceFile,
+          location,
+          typeName,
+          getSourceFile,
+        });
+        importDeclarations.add(graphqlImport.name, String(graphqlImport.specifier));
+      } else if (location === 'inputObjectTypes' && typeName !== inputType.name) {
+        importDeclarations.add(
+          getSchemaName(typeName),
+          relativePath(
+            sourceFile.getFilePath(),
+            getSourceFile({ name: typeName, type: 'schema' }).getFilePath(),
+          ),
+        );
+      }
+    }
+
+    // Same as property type, e.g. Array<Date> | Array<string>
+    zodTypes = zodTypes.map(t => (isList ? `z.array(${t})` : t));
+    let zodType =
+      zodTypes.length > 1 ? `z.union([${zodTypes.join(', ')}])` : zodTypes[0];
+    if (isNullable) {
+      zodType += isRequired ? '.nullable()' : '.nullish()';
+    } else if (!isRequired) {
+      zodType += '.optional()';
+    }
+
+    shape.push(`${name}: ${zodType},`);
+  }
+
+  const variableStatement: VariableStatementStructure = {
+    kind: StructureKind.VariableStatement,
+    isExported: true,
+    declarationKind: VariableDeclarationKind.Const,
+    declarations: [
+      {
+        name: schemaName,
+        type: `z.ZodType<Nullable<${inputType.name}>>`,
+        initializer: `z.object({\n${shape.join('\n')}\n})`,
+      },
+    ],
+  };
+
+  sourceFile.set({
+    statements: [...importDeclarations.toStatements(), variableStatement],
+  });
+}
+
+/**
+ * Type of parsed value, optional fields of input class may be null
+ * (property type of input class does not include null).
+ */
+function nullableTypeFile(args: EventArguments) {
+  const sourceFile = args.getSourceFile({ name: 'Nullable', type: 'schema' });
+  if (sourceFile.getTypeAlias('Nullable')) {
+    return sourceFile;
+  }
+  const importDeclarations = new ImportDeclarationMap();
+  importDeclarations.add('Decimal', '@prisma/client/runtime');
+  sourceFile.set({
+    statements: [
+      ...importDeclarations.toStatements(),
+      {
+        kind: StructureKind.TypeAlias,
+        isExported: true,
+        name: 'Nullable',
+        typeParameters: ['T'],
+        type: `T extends Date | Decimal | Buffer
+          ? T
+          : T extends Array<infer U>
+          ? Array<Nullable<U>>
+          : T extends object
+          ? { [K in keyof T]: undefined extends T[K] ? Nullable<T[K]> | null : Nullable<T[K]> }
+          : T`,
+      },
+    ],
+  });
+  return sourceFile;
+}
+
+/**
+ * Schema of json value, shared by all Json fields.
+ */
+function jsonSchemaFile(args: EventArguments) {
+  const sourceFile = args.getSourceFile({ name: 'Json', type: 'schema' });
+  if (sourceFile.getVariableDeclaration(getSchemaName('Json'))) {
+    return sourceFile;
+  }
+  const importDeclarations = new ImportDeclarationMap();
+  importDeclarations.add('z', 'zod');
+  sourceFile.set({
+    statements: [
+      ...importDeclarations.toStatements(),
+      {
+        kind: StructureKind.VariableStatement,
+        isExported: true,
+        declarationKind: VariableDeclarationKind.Const,
+        declarations: [
+          {
+            name: getSchemaName('Json'),
+            type: 'z.ZodType<unknown>',
+            initializer: `z.lazy(() =>
+              z.union([
+                z.string(),
+                z.number(),
+                z.boolean(),
+                z.null(),
+                z.array(${getSchemaName('Json')}),
+                z.record(${getSchemaName('Json')}),
+              ]),
+            )`,
+          },
+        ],
+      },
+    ],
+  });
+  return sourceFile;
+}
+
+function getSchemaName(name: string) {
+  return `${name}Schema`;
+}
+
+function getZodTypes(args: { location: FieldLocation; typeName: string }): string[] {
+  const { location, typeName } = args;
+
+  if (location === 'enumTypes') {
+    return [`z.nativeEnum(${typeName})`];
+  }
+
+  if (location === 'inputObjectTypes') {
+    // Lazy for recursive and circular references
+    return [`z.lazy(() => ${getSchemaName(typeName)})`];
+  }
+
+  switch (typeName) {
+    case 'String':
+      return ['z.string()'];
+    case 'Int':
+      return ['z.number().int()'];
+    case 'Float':
+      return ['z.number()'];
+    case 'true':
+      return ['z.literal(true)'];
+    case 'Boolean':
+      return ['z.boolean()'];
+    case 'DateTime':
+      return ['z.date()', 'z.string()'];
+    case 'BigInt':
+      return ['z.bigint()', 'z.number()'];
+    case 'Bytes':
+      return ['z.instanceof(Buffer)'];
+    case 'Decimal':
+      return ['z.instanceof(Decimal)'];
+    case 'Json':
+      return [`z.lazy(() => ${getSchemaName('Json')})`];
+    case 'Null':
+      return ['z.null()'];
+  }
+
+  // Custom scalars
+  return ['z.any()'];
+}
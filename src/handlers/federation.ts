@@ -0,0 +1,201 @@
+import AwaitEventEmitter from 'await-event-emitter';
+import { lowerFirst } from 'lodash';
+import {
+  ClassDeclaration,
+  PropertyDeclaration,
+  Scope,
+  SourceFile,
+  StructureKind,
+} from 'ts-morph';
+
+import {
+  FederationKey,
+  getEntityKeys,
+  hasReferenceResolver,
+  isEntityStub,
+} from '../helpers/get-federation-keys';
+import { getGraphqlFieldName } from '../helpers/get-graphql-field-name';
+import { ImportDeclarationMap } from '../helpers/import-declaration-map';
+import { relativePath } from '../helpers/relative-path';
+import { EventArguments, GeneratorConfiguration, Model, OutputType } from '../types';
+
+export function federation(emitter: AwaitEventEmitter) {
+  emitter.on('ModelOutputType', modelOutputType);
+  emitter.on('OutputType', outputType);
+}
+
+/**
+ * Add federation directives to model class (generated by previous handler)
+ * and generate reference resolver for entity.
+ * Subcribes on: 'ModelOutputType'
+ */
+function modelOutputType(outputType: OutputType, args: EventArguments) {
+  const { models, getSourceFile, config } = args;
+  const model = models.get(outputType.name);
+  const sourceFile = getSourceFile({ name: outputType.name, type: 'model' });
+  const classDeclaration = sourceFile.getClass(outputType.name);
+
+  if (!model || !classDeclaration) {
+    return;
+  }
+
+  const keys = getEntityKeys({ ...args, model });
+
+  if (keys.length === 0) {
+    addDirective({
+      sourceFile,
+      node: classDeclaration,
+      directive: '@shareable',
+      config,
+    });
+    return;
+  }
+
+  for (const key of keys) {
+    const fields = key.fields.map(
+      name => getGraphqlFieldName({ ...args, modelName: model.name, name }) ?? name,
+    );
+    addDirective({
+      sourceFile,
+      node: classDeclaration,
+      directive: `@key(fields: "${fields.join(' ')}")`,
+      config,
+    });
+  }
+
+  // Stub extends entity of another subgraph, which owns its key fields
+  if (isEntityStub({ ...args, model })) {
+    addDirective({ sourceFile, node: classDeclaration, directive: '@extends', config });
+    for (const name of new Set(keys.flatMap(key => key.fields))) {
+      const property = classDeclaration.getProperty(name);
+      if (property) {
+        addDirective({ sourceFile, node: property, directive: '@external', config });
+      }
+    }
+  }
+
+  if (hasReferenceResolver({ ...args, model })) {
+    createReferenceResolver({ ...args, model, key: keys[0] });
+  }
+}
+
+/**
+ * Output types (aggregates, etc.) are the same in all subgraphs.
+ * Subcribes on: 'OutputType'
+ */
+function outputType(outputType: OutputType, args: EventArguments) {
+  const { getSourceFile, config } = args;
+  const sourceFile = getSourceFile({ name: outputType.name, type: 'output' });
+  const classDeclaration = sourceFile.getClass(outputType.name);
+
+  if (classDeclaration) {
+    addDirective({
+      sourceFile,
+      node: classDeclaration,
+      directive: '@shareable',
+      config,
+    });
+  }
+}
+
+function addDirective(args: {
+  sourceFile: SourceFile;
+  node: ClassDeclaration | PropertyDeclaration;
+  directive: string;
+  config: GeneratorConfiguration;
+}) {
+  const { sourceFile, node, directive, config } = args;
+  const hasImport = sourceFile
+    .getImportDeclarations()
+    .some(d => d.getNamedImports().some(n => n.getName() === 'Directive'));
+
+  if (!hasImport) {
+    sourceFile.addImportDeclaration({
+      namedImports: ['Directive'],
+      moduleSpecifier: config.graphqlModule,
+    });
+  }
+
+  node.addDecorator({ name: 'Directive', arguments: [`'${directive}'`] });
+}
+
+function createReferenceResolver(
+  args: EventArguments & { model: Model; key: FederationKey },
+) {
+  const { model, key, getSourceFile, config } = args;
+  const sourceFile = getSourceFile({ name: model.name, type: 'reference' });
+  const importDeclarations = new ImportDeclarationMap();
+  // Reference has graphql names of key fields
+  const referenceFields = key.fields.map(name => ({
+    name,
+    graphqlName: getGraphqlFieldName({ ...args, modelName: model.name, name }),
+  }));
+  const keyValues = referenceFields.map(
+    ({ name, graphqlName }) => `${name}: reference.${graphqlName ?? name}`,
+  );
+  const referenceType = referenceFields.some(f => f.graphqlName)
+    ? `{ __typename: string; ${referenceFields
+        .map(
+          ({ name, graphqlName }) => `${graphqlName ?? name}: ${model.name}['${name}']`,
+        )
+        .join('; ')} }`
+    : `{ __typename: string } & Pick<${model.name}, ${key.fields
+        .map(name => `'${name}'`)
+        .join(' | ')}>`;
+  const where =
+    key.fields.length === 1
+      ? `{ ${keyValues[0]} }`
+      : `{ ${key.name}: { ${keyValues.join(', ')} } }`;
+
+  importDeclarations.add('Resolver', config.graphqlModule);
+  importDeclarations.add('ResolveReference', config.graphqlModule);
+  importDeclarations.add('PrismaClient', '@prisma/client');
+  importDeclarations.add(
+    model.name,
+    relativePath(
+      sourceFile.getFilePath(),
+      getSourceFile({ name: model.name, type: 'model' }).getFilePath(),
+    ),
+  );
+
+  sourceFile.set({
+    statements: [
+      ...importDeclarations.toStatements(),
+      {
+        kind: StructureKind.Class,
+        isExported: true,
+        name: `${model.name}ReferenceResolver`,
+        decorators: [{ name: 'Resolver', arguments: [`() => ${model.name}`] }],
+        ctors: [
+          {
+            parameters: [
+              {
+                name: 'prisma',
+                type: 'PrismaClient',
+                scope: Scope.Private,
+                isReadonly: true,
+              },
+            ],
+          },
+        ],
+        methods: [
+          {
+            name: 'resolveReference',
+            decorators: [{ name: 'ResolveReference', arguments: [] }],
+            parameters: [
+              {
+                name: 'reference',
+                type: referenceType,
+              },
+            ],
+            statements: [
+              `return this.prisma.${lowerFirst(
+                model.name,
+              )}.findUnique({ where: ${where} });`,
+            ],
+          },
+        ],
+      },
+    ],
+  });
+}
@@ -1,12 +1,16 @@
 import { ok } from 'assert';
+import path from 'path';
 import {
   ClassDeclarationStructure,
+  FunctionDeclarationStructure,
   ImportSpecifierStructure,
   StatementStructures,
   StructureKind,
+  VariableStatementStructure,
 } from 'ts-morph';
 
 import { ImportDeclarationMap } from '../helpers/import-declaration-map';
+import { relativePath } from '../helpers/relative-path';
 import { EventArguments } from '../types';
 
 export async function generateFiles(args: EventArguments) {
@@ -18,6 +22,9 @@ export async function generateFiles(args: EventArguments) {
     const sourceFile =
       rootDirectory.getSourceFile('index.ts') ||
       rootDirectory.createSourceFile('index.ts', undefined, { overwrite: true });
+    const generatedFiles = new Set<string>(
+      project.getSourceFiles().map(s => s.getFilePath()),
+    );
     const statements = project.getSourceFiles().flatMap(s => {
       if (s === sourceFile) {
         return [];
@@ -49,12 +56,42 @@ export async function generateFiles(args: EventArguments) {
         }
       }
 
+      const directoryPath = s.getDirectoryPath();
       project.removeSourceFile(s);
-      return statements;
+      if (!Array.isArray(statements)) {
+        return statements;
+      }
+      // Imports between generated files are not needed in single file,
+      // but other relative imports (e.g. custom prisma service) must be kept
+      return statements.filter(statement => {
+        if (
+          typeof statement !== 'object' ||
+          statement.kind !== StructureKind.ImportDeclaration ||
+          !statement.moduleSpecifier.startsWith('.')
+        ) {
+          return true;
+        }
+        const importPath = path.posix.join(directoryPath, statement.moduleSpecifier);
+        if (generatedFiles.has(`${importPath}.ts`)) {
+          return false;
+        }
+        statement.moduleSpecifier = relativePath(sourceFile.getFilePath(), importPath);
+        return true;
+      });
     });
     const imports = new ImportDeclarationMap();
     const enums: (StatementStructures | string)[] = [];
     const classes: ClassDeclarationStructure[] = [];
+    const variables: VariableStatementStructure[] = [];
+    const functions: FunctionDeclarationStructure[] = [];
+    // Enums declared as variables (see `enumSource`) must be before registerEnumType
+    const enumNames = new Set(
+      statements.map(statement =>
+        typeof statement === 'string'
+          ? /^registerEnumType\((\w+)/.exec(statement)?.[1]
+          : undefined,
+      ),
+    );
     for (const statement of statements as (StatementStructures | string)[]) {
       if (typeof statement === 'string') {
         if (statement.startsWith('registerEnumType')) {
@@ -64,12 +101,6 @@ export async function generateFiles(args: EventArguments) {
       }
       switch (statement.kind) {
         case StructureKind.ImportDeclaration:
-          if (
-            statement.moduleSpecifier.startsWith('./') ||
-            statement.moduleSpecifier.startsWith('..')
-          ) {
-            continue;
-          }
           for (const namedImport of statement.namedImports as ImportSpecifierStructure[]) {
             const name = namedImport.alias || namedImport.name;
             imports.add(name, statement.moduleSpecifier);
@@ -90,16 +121,34 @@ export async function generateFiles(args: EventArguments) {
           }
           break;
         case StructureKind.Enum:
+        case StructureKind.TypeAlias:
+        case StructureKind.ExportDeclaration:
           enums.unshift(statement);
           break;
         case StructureKind.Class:
           classes.push(statement);
           break;
+        case StructureKind.VariableStatement:
+          if (statement.declarations.some(d => enumNames.has(d.name))) {
+            enums.unshift(statement);
+          } else {
+            variables.push(statement);
+          }
+          break;
+        case StructureKind.Function:
+          functions.push(statement);
+          break;
       }
     }
     sourceFile.set({
       kind: StructureKind.SourceFile,
-      statements: [...imports.toStatements(), ...enums, ...classes],
+      statements: [
+        ...imports.toStatements(),
+        ...enums,
+        ...classes,
+        ...variables,
+        ...functions,
+      ],
     });
   }
 
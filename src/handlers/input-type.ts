@@ -4,10 +4,17 @@ import { castArray, last } from 'lodash';
 import pupa from 'pupa';
 import { ClassDeclarationStructure, StructureKind } from 'ts-morph';
 
+import {
+  getGraphqlFieldName,
+  hasGraphqlFieldNames,
+} from '../helpers/get-graphql-field-name';
 import { getGraphqlImport } from '../helpers/get-graphql-import';
 import { getGraphqlInputType } from '../helpers/get-graphql-input-type';
+import { getNativeType } from '../helpers/get-native-type';
 import { getPropertyType } from '../helpers/get-property-type';
 import { ImportDeclarationMap } from '../helpers/import-declaration-map';
+import { inferValidators } from '../helpers/infer-validators';
+import { nestedInputDecorators } from '../helpers/nested-input-decorators';
 import { propertyStructure } from '../helpers/property-structure';
 import { EventArguments, InputType } from '../types';
 
@@ -54,7 +61,7 @@ export function inputType(
   const modelName = getModelName(inputType.name) || '';
   const model = models.get(modelName);
   const modelFieldSettings = model && fieldSettings.get(model.name);
-  const moduleSpecifier = '@nestjs/graphql';
+  const moduleSpecifier = config.graphqlModule;
 
   // console.log('sourceFile.getBaseName()', sourceFile.getBaseName());
 
@@ -92,12 +99,15 @@ export function inputType(
       name: inputType.name,
       input: true,
     });
-    const isCustomsApplicable =
-      typeName === model?.fields.find(f => f.name === name)?.type;
+    const modelField = model?.fields.find(f => f.name === name);
+    const isCustomsApplicable = typeName === modelField?.type;
+    const nativeType = isCustomsApplicable ? getNativeType(modelField) : undefined;
     const propertyType = castArray(
       propertySettings?.name ||
+        (nativeType && config.nativeTypeScalars[nativeType]?.propertyType) ||
         getPropertyType({
           location,
+          enumSource: config.enumSource,
           type: typeName,
         }),
     );
@@ -146,6 +156,7 @@ export function inputType(
         sourceFile,
         location,
         typeName,
+        nativeType,
         getSourceFile,
       });
 
@@ -172,9 +183,15 @@ export function inputType(
     ok(property.decorators, 'property.decorators is undefined');
 
     if (shouldHideField) {
-      importDeclarations.add('HideField', '@nestjs/graphql');
-      property.decorators.push({ name: 'HideField', arguments: [] });
+      // TypeGraphQL omits properties without decorator
+      if (config.target === 'nestjs-graphql') {
+        importDeclarations.add('HideField', config.graphqlModule);
+        property.decorators.push({ name: 'HideField', arguments: [] });
+      }
     } else {
+      const graphqlName = modelField
+        ? getGraphqlFieldName({ ...args, modelName, name })
+        : undefined;
       // Generate `@Field()` decorator
       property.decorators.push({
         name: 'Field',
@@ -182,10 +199,38 @@ export function inputType(
           isList ? `() => [${graphqlType}]` : `() => ${graphqlType}`,
           JSON5.stringify({
             ...settings?.fieldArguments(),
+            name: graphqlName,
             nullable: !isRequired,
           }),
         ],
       });
+      // Type-graphql maps graphql name back to property, nestjs by class-transformer
+      if (graphqlName && config.target === 'nestjs-graphql') {
+        property.decorators.push({
+          name: 'Expose',
+          arguments: [JSON5.stringify({ name: graphqlName })],
+        });
+        importDeclarations.add('Expose', 'class-transformer');
+      }
+
+      if (
+        config.inferValidators &&
+        modelField &&
+        (isCustomsApplicable ||
+          (location === 'inputObjectTypes' && modelField.kind === 'object'))
+      ) {
+        for (const decorator of inferValidators({
+          modelField,
+          isRequired,
+          isList,
+          location,
+          typeName,
+          settings,
+        })) {
+          property.decorators.push(decorator);
+          importDeclarations.add(decorator.name, 'class-validator');
+        }
+      }
 
       if (isCustomsApplicable) {
         for (const options of settings || []) {
@@ -212,6 +257,16 @@ export function inputType(
           importDeclarations.create(decorate);
         }
       }
+
+      if (location === 'inputObjectTypes') {
+        nestedInputDecorators({
+          property,
+          graphqlType,
+          config,
+          importDeclarations,
+          hasGraphqlFieldNames: hasGraphqlFieldNames(args),
+        });
+      }
     }
 
     eventEmitter.emitSync('ClassProperty', property, {
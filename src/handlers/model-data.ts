@@ -1,10 +1,12 @@
+import { setNativeTypes } from '../helpers/get-native-type';
 import { createObjectSettings, ObjectSettings } from '../helpers/object-settings';
 import { DMMF, EventArguments, Field } from '../types';
 
 export function modelData(model: DMMF.Model, args: EventArguments) {
-  const { config, modelNames, models, modelFields, fieldSettings } = args;
+  const { config, modelNames, models, modelFields, fieldSettings, datamodel } = args;
   modelNames.push(model.name);
   models.set(model.name, model);
+  setNativeTypes(model, datamodel);
 
   const modelFieldsValue = new Map<string, Field>();
   modelFields.set(model.name, modelFieldsValue);
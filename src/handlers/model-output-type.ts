@@ -2,7 +2,6 @@ import { ok } from 'assert';
 import JSON5 from 'json5';
 import { castArray } from 'lodash';
 import pupa from 'pupa';
-import { PlainObject } from 'simplytyped';
 import {
   ClassDeclarationStructure,
   ExportSpecifierStructure,
@@ -11,7 +10,9 @@ import {
 } from 'ts-morph';
 
 import { createComment } from '../helpers/create-comment';
+import { getGraphqlFieldName } from '../helpers/get-graphql-field-name';
 import { getGraphqlImport } from '../helpers/get-graphql-import';
+import { getNativeType } from '../helpers/get-native-type';
 import { getOutputTypeName } from '../helpers/get-output-type-name';
 import { getPropertyType } from '../helpers/get-property-type';
 import { ImportDeclarationMap } from '../helpers/import-declaration-map';
@@ -23,8 +24,6 @@ import {
 import { propertyStructure } from '../helpers/property-structure';
 import { EventArguments, OutputType } from '../types';
 
-const nestjsGraphql = '@nestjs/graphql';
-
 export function modelOutputType(outputType: OutputType, args: EventArguments) {
   const { getSourceFile, models, config, modelFields, fieldSettings, eventEmitter } =
     args;
@@ -61,7 +60,7 @@ export function modelOutputType(outputType: OutputType, args: EventArguments) {
   let modelSettings: ObjectSettings | undefined;
   // Get model settings from documentation
   if (model.documentation) {
-    const objectTypeOptions: PlainObject = {};
+    const objectTypeOptions: Record<string, unknown> = {};
     const { documentation, settings } = createObjectSettings({
       text: model.documentation,
       config,
@@ -72,12 +71,30 @@ export function modelOutputType(outputType: OutputType, args: EventArguments) {
       }
       objectTypeOptions.description = documentation;
     }
-    decorator.arguments = settings.getObjectTypeArguments(objectTypeOptions);
+    decorator.name = settings.getObjectTypeName();
+    decorator.arguments = settings.getObjectTypeArguments(
+      objectTypeOptions,
+      config.target === 'nestjs-graphql',
+    );
     modelSettings = settings;
+
+    for (const name of settings.getImplements().filter(name => models.has(name))) {
+      const { specifier } = getGraphqlImport({
+        config,
+        sourceFile,
+        fileType: 'model',
+        location: 'outputObjectTypes',
+        typeName: name,
+        getSourceFile,
+      });
+      if (specifier) {
+        importDeclarations.add(name, specifier);
+      }
+    }
   }
 
-  importDeclarations.add('Field', nestjsGraphql);
-  importDeclarations.add('ObjectType', nestjsGraphql);
+  importDeclarations.add('Field', config.graphqlModule);
+  importDeclarations.add(decorator.name, config.graphqlModule);
 
   for (const field of outputType.fields) {
     let fileType = 'model';
@@ -99,10 +116,13 @@ export function modelOutputType(outputType: OutputType, args: EventArguments) {
       output: true,
     });
 
+    const nativeType = getNativeType(modelField);
     const propertyType = castArray(
       propertySettings?.name ||
+        (nativeType && config.nativeTypeScalars[nativeType]?.propertyType) ||
         getPropertyType({
           location,
+          enumSource: config.enumSource,
           type: outputTypeName,
         }),
     );
@@ -128,6 +148,7 @@ export function modelOutputType(outputType: OutputType, args: EventArguments) {
         isId: modelField?.isId,
         noTypeId: config.noTypeId,
         typeName: outputTypeName,
+        nativeType,
         getSourceFile,
       });
 
@@ -162,8 +183,11 @@ export function modelOutputType(outputType: OutputType, args: EventArguments) {
     ok(property.decorators, 'property.decorators is undefined');
 
     if (settings?.shouldHideField({ name: outputType.name, output: true })) {
-      importDeclarations.add('HideField', nestjsGraphql);
-      property.decorators.push({ name: 'HideField', arguments: [] });
+      // TypeGraphQL omits properties without decorator
+      if (config.target === 'nestjs-graphql') {
+        importDeclarations.add('HideField', config.graphqlModule);
+        property.decorators.push({ name: 'HideField', arguments: [] });
+      }
     } else {
       // Generate `@Field()` decorator
       property.decorators.push({
@@ -172,6 +196,9 @@ export function modelOutputType(outputType: OutputType, args: EventArguments) {
           isList ? `() => [${graphqlType}]` : `() => ${graphqlType}`,
           JSON5.stringify({
             ...settings?.fieldArguments(),
+            name:
+              modelField &&
+              getGraphqlFieldName({ ...args, modelName: model.name, name: field.name }),
             nullable: Boolean(field.isNullable),
             defaultValue: ['number', 'string', 'boolean'].includes(
               typeof modelField?.default,
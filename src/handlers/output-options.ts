@@ -0,0 +1,25 @@
+import AwaitEventEmitter from 'await-event-emitter';
+
+import { GeneratorConfiguration } from '../types';
+import { combineScalarFilters } from './combine-scalar-filters';
+import { emitSingle } from './emit-single';
+import { noAtomicOperations } from './no-atomic-operations';
+import { purgeOutput } from './purge-output';
+import { ReExport, reExport } from './re-export';
+import { requireSingleFieldsInWhereUniqueInput } from './require-single-fields-in-whereunique-input';
+
+/**
+ * Connect handlers of options which change generated types and output files.
+ */
+export function outputOptions(
+  emitter: AwaitEventEmitter,
+  config: GeneratorConfiguration,
+) {
+  config.combineScalarFilters && combineScalarFilters(emitter);
+  config.noAtomicOperations && noAtomicOperations(emitter);
+  config.reExport !== ReExport.None && reExport(emitter);
+  config.emitSingle && emitSingle(emitter);
+  config.purgeOutput && purgeOutput(emitter);
+  config.requireSingleFieldsInWhereUniqueInput &&
+    requireSingleFieldsInWhereUniqueInput(emitter);
+}
@@ -3,15 +3,15 @@ import JSON5 from 'json5';
 import { castArray, last } from 'lodash';
 import { ClassDeclarationStructure, StructureKind } from 'ts-morph';
 
+import { getGraphqlFieldName } from '../helpers/get-graphql-field-name';
 import { getGraphqlImport } from '../helpers/get-graphql-import';
+import { getNativeType } from '../helpers/get-native-type';
 import { getOutputTypeName } from '../helpers/get-output-type-name';
 import { getPropertyType } from '../helpers/get-property-type';
 import { ImportDeclarationMap } from '../helpers/import-declaration-map';
 import { propertyStructure } from '../helpers/property-structure';
 import { EventArguments, OutputType } from '../types';
 
-const nestjsGraphql = '@nestjs/graphql';
-
 export function outputType(outputType: OutputType, args: EventArguments) {
   const { getSourceFile, models, eventEmitter, fieldSettings, getModelName, config } =
     args;
@@ -51,8 +51,8 @@ export function outputType(outputType: OutputType, args: EventArguments) {
     properties: [],
   };
 
-  importDeclarations.add('Field', nestjsGraphql);
-  importDeclarations.add('ObjectType', nestjsGraphql);
+  importDeclarations.add('Field', config.graphqlModule);
+  importDeclarations.add('ObjectType', config.graphqlModule);
 
   for (const field of outputType.fields) {
     const { location, isList, type } = field.outputType;
@@ -64,15 +64,18 @@ export function outputType(outputType: OutputType, args: EventArguments) {
       name: outputType.name,
       output: true,
     });
-    const isCustomsApplicable =
-      outputTypeName === model?.fields.find(f => f.name === field.name)?.type;
+    const modelField = model?.fields.find(f => f.name === field.name);
+    const isCustomsApplicable = outputTypeName === modelField?.type;
+    const nativeType = isCustomsApplicable ? getNativeType(modelField) : undefined;
 
     field.outputType.type = outputTypeName;
 
     const propertyType = castArray(
       propertySettings?.name ||
+        (nativeType && config.nativeTypeScalars[nativeType]?.propertyType) ||
         getPropertyType({
           location,
+          enumSource: config.enumSource,
           type: outputTypeName,
         }),
     );
@@ -124,6 +127,7 @@ export function outputType(outputType: OutputType, args: EventArguments) {
         location,
         isId: false,
         typeName: outputTypeName,
+        nativeType,
         getSourceFile,
       });
 
@@ -149,8 +153,11 @@ export function outputType(outputType: OutputType, args: EventArguments) {
     ok(property.decorators, 'property.decorators is undefined');
 
     if (shouldHideField) {
-      importDeclarations.add('HideField', nestjsGraphql);
-      property.decorators.push({ name: 'HideField', arguments: [] });
+      // TypeGraphQL omits properties without decorator
+      if (config.target === 'nestjs-graphql') {
+        importDeclarations.add('HideField', config.graphqlModule);
+        property.decorators.push({ name: 'HideField', arguments: [] });
+      }
     } else {
       // Generate `@Field()` decorator
       property.decorators.push({
@@ -159,6 +166,10 @@ export function outputType(outputType: OutputType, args: EventArguments) {
           isList ? `() => [${graphqlType}]` : `() => ${graphqlType}`,
           JSON5.stringify({
             ...settings?.fieldArguments(),
+            // Aggregates (e.g. count of field) are named as field
+            name:
+              modelField &&
+              getGraphqlFieldName({ ...args, modelName, name: field.name }),
             nullable: Boolean(field.isNullable),
           }),
         ],
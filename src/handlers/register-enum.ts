@@ -1,10 +1,12 @@
-import { EnumDeclarationStructure, StructureKind } from 'ts-morph';
+import JSON5 from 'json5';
+import { StatementStructures, StructureKind, VariableDeclarationKind } from 'ts-morph';
 
 import { ImportDeclarationMap } from '../helpers/import-declaration-map';
-import { EventArguments, SchemaEnum } from '../types';
+import { createObjectSettings } from '../helpers/object-settings';
+import { DMMF, EventArguments, GeneratorConfiguration, SchemaEnum } from '../types';
 
 export function registerEnum(enumType: SchemaEnum, args: EventArguments) {
-  const { getSourceFile, enums } = args;
+  const { getSourceFile, enums, config } = args;
   const dataModelEnum = enums[enumType.name];
   const sourceFile = getSourceFile({
     name: enumType.name,
@@ -15,27 +17,146 @@ export function registerEnum(enumType: SchemaEnum, args: EventArguments) {
 
   importDeclarations.set('registerEnumType', {
     namedImports: [{ name: 'registerEnumType' }],
-    moduleSpecifier: '@nestjs/graphql',
+    moduleSpecifier: config.graphqlModule,
   });
 
-  const enumStructure: EnumDeclarationStructure = {
-    kind: StructureKind.Enum,
-    isExported: true,
-    name: enumType.name,
-    members: enumType.values.map(v => ({
-      name: v,
-      initializer: JSON.stringify(v),
-    })),
-  };
+  if (config.enumSource === 'prisma-client') {
+    // Enums of models are exported by client, other enums are in Prisma namespace
+    importDeclarations.add(dataModelEnum ? enumType.name : 'Prisma', '@prisma/client');
+  }
+
+  const valuesMap = getValuesMap(dataModelEnum, args);
+  // Option is named valuesConfig in type-graphql
+  const valuesMapOption = valuesMap
+    ? `, ${
+        config.target === 'type-graphql' ? 'valuesConfig' : 'valuesMap'
+      }: ${valuesMap}`
+    : '';
 
   sourceFile.set({
     statements: [
       ...importDeclarations.toStatements(),
-      enumStructure,
+      ...enumStatements({ enumType, isModelEnum: Boolean(dataModelEnum), config }),
       '\n',
       `registerEnumType(${enumType.name}, { name: '${
         enumType.name
-      }', description: ${JSON.stringify(dataModelEnum?.documentation)} })`,
+      }', description: ${JSON.stringify(
+        dataModelEnum?.documentation,
+      )}${valuesMapOption} })`,
     ],
   });
 }
+
+/**
+ * Declaration of enum depending on `enumSource` option
+ */
+function enumStatements(args: {
+  enumType: SchemaEnum;
+  isModelEnum: boolean;
+  config: GeneratorConfiguration;
+}): StatementStructures[] {
+  const { enumType, isModelEnum, config } = args;
+  const { name, values } = enumType;
+
+  switch (config.enumSource) {
+    case 'prisma-client':
+      return isModelEnum
+        ? [{ kind: StructureKind.ExportDeclaration, namedExports: [name] }]
+        : [
+            {
+              kind: StructureKind.VariableStatement,
+              isExported: true,
+              declarationKind: VariableDeclarationKind.Const,
+              declarations: [{ name, initializer: `Prisma.${name}` }],
+            },
+            {
+              kind: StructureKind.TypeAlias,
+              isExported: true,
+              name,
+              type: `Prisma.${name}`,
+            },
+          ];
+    case 'const-object':
+      return [
+        {
+          kind: StructureKind.VariableStatement,
+          isExported: true,
+          declarationKind: VariableDeclarationKind.Const,
+          declarations: [
+            {
+              name,
+              initializer: [
+                '{',
+                ...values.map(v => `  ${v}: ${JSON.stringify(v)},`),
+                '} as const',
+              ].join('\n'),
+            },
+          ],
+        },
+        {
+          kind: StructureKind.TypeAlias,
+          isExported: true,
+          name,
+          type: `(typeof ${name})[keyof typeof ${name}]`,
+        },
+      ];
+  }
+
+  return [
+    {
+      kind: StructureKind.Enum,
+      isExported: true,
+      name,
+      members: values.map(v => ({
+        name: v,
+        initializer: JSON.stringify(v),
+      })),
+    },
+  ];
+}
+
+/**
+ * Description and deprecation reason of enum values from their documentation,
+ * directives of values are not supported by `registerEnumType` and reported.
+ */
+function getValuesMap(
+  dataModelEnum: DMMF.DatamodelEnum | undefined,
+  args: EventArguments,
+) {
+  if (!dataModelEnum) {
+    return;
+  }
+  const result: Record<string, { description?: string; deprecationReason?: string }> =
+    {};
+
+  for (const value of dataModelEnum.values) {
+    const { documentation } = value as { documentation?: string };
+    if (!documentation) {
+      continue;
+    }
+    const { settings, documentation: description } = createObjectSettings({
+      text: documentation,
+      config: args.config,
+    });
+    const deprecationReason = settings.fieldArguments()?.deprecationReason as
+      | string
+      | undefined;
+    for (const directive of settings.filter(
+      s => s.kind === 'Decorator' && s.name === 'Directive',
+    )) {
+      args.eventEmitter.emitSync(
+        'Warning',
+        `Directive ${String(directive.arguments)} of enum value ${dataModelEnum.name}.${
+          value.name
+        } is not supported by registerEnumType, it is ignored`,
+      );
+    }
+    if (description || deprecationReason) {
+      result[value.name] = { description, deprecationReason };
+    }
+  }
+
+  return Object.keys(result).length > 0
+    ? JSON5.stringify(result, { quote: "'" })
+    : undefined;
+}
@@ -0,0 +1,41 @@
+import AwaitEventEmitter from 'await-event-emitter';
+
+import { getFieldArgsTypeName } from '../helpers/get-args-type-name';
+import { EventArguments, OutputType } from '../types';
+
+export function relationArgsType(emitter: AwaitEventEmitter) {
+  const modelOutputTypes: OutputType[] = [];
+  emitter.on('ModelOutputType', (outputType: OutputType) => {
+    modelOutputTypes.push(outputType);
+  });
+  emitter.on('RootOutputTypes', (_: OutputType[], args: EventArguments) =>
+    relationArgsTypes(modelOutputTypes, args),
+  );
+}
+
+/**
+ * Generate args class for relation fields (where, orderBy, take, etc.),
+ * e.g. UserPostsArgs, after all input types are generated (and removed types are known).
+ * Subcribes on: 'RootOutputTypes'
+ */
+async function relationArgsTypes(outputTypes: OutputType[], args: EventArguments) {
+  const { eventEmitter, modelFields } = args;
+
+  for (const outputType of outputTypes) {
+    for (const field of outputType.fields) {
+      if (
+        field.args.length === 0 ||
+        !modelFields.get(outputType.name)?.get(field.name)?.relationName
+      ) {
+        continue;
+      }
+      await eventEmitter.emit('ArgsType', field, {
+        ...args,
+        className: getFieldArgsTypeName({
+          modelName: outputType.name,
+          fieldName: field.name,
+        }),
+      });
+    }
+  }
+}
@@ -0,0 +1,262 @@
+import AwaitEventEmitter from 'await-event-emitter';
+import { last } from 'lodash';
+import {
+  Decorator,
+  Node as TsNode,
+  SourceFile,
+  StructureKind,
+  SyntaxKind,
+} from 'ts-morph';
+
+import { addNamedImport } from '../helpers/add-named-import';
+import { ImportDeclarationMap } from '../helpers/import-declaration-map';
+import { getNodeId, hasNodeId } from '../helpers/node-id';
+import { createNodeResolver } from '../helpers/node-resolver';
+import { relativePath } from '../helpers/relative-path';
+import { EventArguments, InputType, OutputType } from '../types';
+
+export function relayNode(emitter: AwaitEventEmitter) {
+  emitter.on('PostBegin', postBegin);
+  emitter.on('ModelOutputType', modelOutputType);
+  emitter.on('InputType', inputType);
+}
+
+/**
+ * Generate node interface, global id helpers and node query resolver.
+ * Subcribes on: 'PostBegin'
+ */
+function postBegin(args: EventArguments) {
+  const { getSourceFile, config } = args;
+
+  // Resolver depends on NestJS
+  if (config.target === 'nestjs-graphql') {
+    createNodeResolver(args);
+  }
+
+  const sourceFile = getSourceFile({ name: 'Node', type: 'interface' });
+  const importDeclarations = new ImportDeclarationMap();
+
+  importDeclarations.add('Field', config.graphqlModule);
+  importDeclarations.add('ID', config.graphqlModule);
+  importDeclarations.add('InterfaceType', config.graphqlModule);
+
+  sourceFile.set({
+    statements: [
+      ...importDeclarations.toStatements(),
+      {
+        kind: StructureKind.Class,
+        isExported: true,
+        isAbstract: true,
+        name: 'Node',
+        decorators: [
+          {
+            name: 'InterfaceType',
+            // Node query returns instance of model class
+            arguments: ['{ resolveType: (value: object) => value.constructor }'],
+          },
+        ],
+        properties: [
+          {
+            name: 'id',
+            type: 'string',
+            hasExclamationToken: true,
+            decorators: [
+              { name: 'Field', arguments: ['() => ID', '{nullable:false}'] },
+            ],
+          },
+        ],
+      },
+      {
+        kind: StructureKind.Function,
+        isExported: true,
+        name: 'toGlobalId',
+        parameters: [
+          { name: 'typeName', type: 'string' },
+          { name: 'id', type: 'unknown' },
+        ],
+        returnType: 'string',
+        statements: [
+          "return Buffer.from(`${typeName}:${String(id)}`).toString('base64');",
+        ],
+      },
+      {
+        kind: StructureKind.Function,
+        isExported: true,
+        name: 'fromGlobalId',
+        docs: ['Decode global id, if type name is passed, it must match type of id'],
+        parameters: [
+          { name: 'globalId', type: 'string' },
+          { name: 'typeName', type: 'string', hasQuestionToken: true },
+        ],
+        returnType: '{ typeName: string; id: string }',
+        statements: [
+          "const value = Buffer.from(globalId, 'base64').toString();",
+          "const index = value.indexOf(':');",
+          'const result = { typeName: value.slice(0, index), id: value.slice(index + 1) };',
+          [
+            'if (typeName !== undefined && result.typeName !== typeName) {',
+            '  throw new TypeError(`Global id ${globalId} is not id of ${typeName}`);',
+            '}',
+          ].join('\n'),
+          'return result;',
+        ],
+      },
+      {
+        kind: StructureKind.Function,
+        isExported: true,
+        name: 'globalIdMiddleware',
+        parameters: [{ name: 'typeName', type: 'string' }],
+        statements: [
+          'return async (_: unknown, next: () => Promise<unknown>) =>',
+          '  toGlobalId(typeName, await next());',
+        ],
+      },
+    ],
+  });
+}
+
+/**
+ * Model with id implements node interface, id is resolved as global id.
+ * Subcribes on: 'ModelOutputType'
+ */
+function modelOutputType(outputType: OutputType, args: EventArguments) {
+  const { models, getSourceFile, config } = args;
+  const model = models.get(outputType.name);
+  const sourceFile = getSourceFile({ name: outputType.name, type: 'model' });
+  const classDeclaration = sourceFile.getClass(outputType.name);
+  const objectType = classDeclaration?.getDecorator('ObjectType');
+  const fieldDecorator = classDeclaration?.getProperty('id')?.getDecorator('Field');
+
+  if (!model || !hasNodeId(model) || !objectType || !fieldDecorator) {
+    return;
+  }
+
+  addImplements(objectType, config.target === 'nestjs-graphql');
+  setIdType(fieldDecorator);
+
+  const middleware = `globalIdMiddleware('${model.name}')`;
+  if (config.target === 'nestjs-graphql') {
+    getOptions(fieldDecorator).addPropertyAssignment({
+      name: 'middleware',
+      initializer: `[${middleware}]`,
+    });
+  } else {
+    fieldDecorator
+      .getParentOrThrow()
+      .asKindOrThrow(SyntaxKind.PropertyDeclaration)
+      .addDecorator({ name: 'UseMiddleware', arguments: [middleware] });
+    addNamedImport(sourceFile, 'UseMiddleware', config.graphqlModule);
+  }
+
+  addNamedImport(sourceFile, 'ID', config.graphqlModule);
+  addNodeImport({ sourceFile, getSourceFile, names: ['Node', 'globalIdMiddleware'] });
+}
+
+/**
+ * Global id is decoded in unique where input of model.
+ * Subcribes on: 'InputType'
+ */
+function inputType(args: EventArguments & { inputType: InputType; fileType: string }) {
+  const { inputType, fileType, models, getModelName, getSourceFile, config } = args;
+  const model = models.get(getModelName(inputType.name) || '');
+
+  if (
+    !model ||
+    !hasNodeId(model) ||
+    inputType.name !== `${model.name}WhereUniqueInput`
+  ) {
+    return;
+  }
+
+  const sourceFile = getSourceFile({ name: inputType.name, type: fileType });
+  const property = sourceFile.getClass(inputType.name)?.getProperty('id');
+  const fieldDecorator = property?.getDecorator('Field');
+
+  if (!property || !fieldDecorator) {
+    return;
+  }
+
+  const id = getNodeId(model, `fromGlobalId(value, '${model.name}').id`);
+
+  setIdType(fieldDecorator);
+  property.addDecorator({
+    name: 'Transform',
+    arguments: [`({ value }) => (typeof value === 'string' ? ${id} : value)`],
+  });
+
+  addNamedImport(sourceFile, 'ID', config.graphqlModule);
+  addNamedImport(sourceFile, 'Transform', 'class-transformer');
+  addNodeImport({ sourceFile, getSourceFile, names: ['fromGlobalId'] });
+}
+
+function getOptions(decorator: Decorator) {
+  const options = decorator.getArguments()[1];
+  if (TsNode.isObjectLiteralExpression(options)) {
+    return options;
+  }
+  return decorator.addArgument('{}').asKindOrThrow(SyntaxKind.ObjectLiteralExpression);
+}
+
+function setIdType(fieldDecorator: Decorator) {
+  const typeFunction = fieldDecorator.getArguments()[0];
+  const typeName = typeFunction.getText().replace('() => ', '');
+  const sourceFile = fieldDecorator.getSourceFile();
+
+  typeFunction.replaceWithText('() => ID');
+
+  // Remove import of previous type (Int, String, etc.) if it is not used anymore
+  const classText = sourceFile.getClasses().map(c => c.getText());
+  if (!classText.some(text => new RegExp(`\\b${typeName}\\b`).test(text))) {
+    for (const declaration of sourceFile.getImportDeclarations()) {
+      declaration
+        .getNamedImports()
+        .find(namedImport => namedImport.getName() === typeName)
+        ?.remove();
+      if (declaration.getNamedImports().length === 0) {
+        declaration.remove();
+      }
+    }
+  }
+}
+
+/**
+ * Add node to implements of object type options (may be set by `@Implements()`)
+ */
+function addImplements(decorator: Decorator, isThunk: boolean) {
+  const options = last(decorator.getArguments());
+  const interfaces = TsNode.isObjectLiteralExpression(options)
+    ? options
+        .getProperty('implements')
+        ?.getFirstDescendantByKind(SyntaxKind.ArrayLiteralExpression)
+    : undefined;
+
+  if (interfaces) {
+    if (!interfaces.getElements().some(element => element.getText() === 'Node')) {
+      interfaces.insertElement(0, 'Node');
+    }
+    return;
+  }
+
+  const initializer = isThunk ? '() => [Node]' : '[Node]';
+  if (TsNode.isObjectLiteralExpression(options)) {
+    options.addPropertyAssignment({ name: 'implements', initializer });
+  } else {
+    decorator.addArgument(`{ implements: ${initializer} }`);
+  }
+}
+
+function addNodeImport(args: {
+  sourceFile: SourceFile;
+  getSourceFile: EventArguments['getSourceFile'];
+  names: string[];
+}) {
+  const { sourceFile, getSourceFile, names } = args;
+  const moduleSpecifier = relativePath(
+    sourceFile.getFilePath(),
+    getSourceFile({ name: 'Node', type: 'interface' }).getFilePath(),
+  );
+
+  for (const name of names) {
+    addNamedImport(sourceFile, name, moduleSpecifier);
+  }
+}
@@ -0,0 +1,163 @@
+import AwaitEventEmitter from 'await-event-emitter';
+import JSON5 from 'json5';
+import {
+  ClassDeclaration,
+  SourceFile,
+  StructureKind,
+  VariableDeclarationKind,
+} from 'ts-morph';
+
+import { addNamedImport } from '../helpers/add-named-import';
+import { getGraphqlImport } from '../helpers/get-graphql-import';
+import { propertyStructure } from '../helpers/property-structure';
+import {
+  getUnionTypes,
+  isUnionResolvedByLoader,
+  UnionType,
+} from '../helpers/union-type';
+import { EventArguments, Model, OutputType } from '../types';
+
+export function unionType(emitter: AwaitEventEmitter) {
+  emitter.on('ModelOutputType', modelOutputType);
+}
+
+/**
+ * Add union types declared by `@Union()` model setting to model class
+ * (generated by previous handler) as field.
+ * Subcribes on: 'ModelOutputType'
+ */
+function modelOutputType(outputType: OutputType, args: EventArguments) {
+  const { models, config, getSourceFile } = args;
+  const model = models.get(outputType.name);
+  const sourceFile = getSourceFile({ name: outputType.name, type: 'model' });
+  const classDeclaration = sourceFile.getClass(outputType.name);
+
+  if (!model || !classDeclaration) {
+    return;
+  }
+
+  for (const union of getUnionTypes({ model, config })) {
+    addUnionType({ ...args, model, union, sourceFile, classDeclaration });
+  }
+}
+
+function addUnionType(
+  args: EventArguments & {
+    model: Model;
+    union: UnionType;
+    sourceFile: SourceFile;
+    classDeclaration: ClassDeclaration;
+  },
+) {
+  const { model, union, config, sourceFile, classDeclaration, getSourceFile } = args;
+  const types = union.relations.map(field => field.type);
+  const resolverName = `resolve${union.name}`;
+  const isNestjs = config.target === 'nestjs-graphql';
+  const hasMiddleware = !isUnionResolvedByLoader(config);
+
+  addNamedImport(sourceFile, 'createUnionType', config.graphqlModule);
+  for (const typeName of types.filter(name => name !== model.name)) {
+    const { specifier } = getGraphqlImport({
+      config,
+      sourceFile,
+      fileType: 'model',
+      location: 'outputObjectTypes',
+      typeName,
+      getSourceFile,
+    });
+    if (specifier) {
+      addNamedImport(sourceFile, typeName, specifier);
+    }
+  }
+
+  sourceFile.insertVariableStatement(classDeclaration.getChildIndex(), {
+    kind: StructureKind.VariableStatement,
+    isExported: true,
+    declarationKind: VariableDeclarationKind.Const,
+    declarations: [
+      {
+        name: union.name,
+        initializer: [
+          'createUnionType({',
+          `  name: '${union.name}',`,
+          `  types: () => [${types.join(', ')}] as const,`,
+          '  resolveType: (value: { __typename?: string }) => value.__typename,',
+          '})',
+        ].join('\n'),
+      },
+    ],
+  });
+
+  const property = propertyStructure({
+    name: union.propertyName,
+    propertyType: [...types, 'null'],
+    isList: false,
+    isNullable: true,
+  });
+  property.decorators?.push({
+    name: 'Field',
+    arguments: [
+      `() => ${union.name}`,
+      hasMiddleware && isNestjs
+        ? `{nullable:true, middleware:[${resolverName}]}`
+        : JSON5.stringify({ nullable: true }),
+    ],
+  });
+  if (hasMiddleware && !isNestjs) {
+    property.decorators?.push({ name: 'UseMiddleware', arguments: [resolverName] });
+    addNamedImport(sourceFile, 'UseMiddleware', config.graphqlModule);
+  }
+  classDeclaration.addProperty(property);
+
+  if (hasMiddleware) {
+    addUnionMiddleware({ model, union, sourceFile, resolverName, isNestjs });
+  }
+}
+
+/**
+ * Middleware resolves union field to value of relation field which is set.
+ * Relation must be loaded by `include`, foreign key of relation which is not
+ * loaded is reported instead of resolving union to null.
+ */
+function addUnionMiddleware(args: {
+  model: Model;
+  union: UnionType;
+  sourceFile: SourceFile;
+  resolverName: string;
+  isNestjs: boolean;
+}) {
+  const { model, union, sourceFile, resolverName, isNestjs } = args;
+  // Middleware context has parent object in source (nestjs) or root (type-graphql)
+  const parent = isNestjs ? 'source' : 'root';
+  const statements: string[] = [];
+
+  for (const field of union.relations) {
+    statements.push(
+      [
+        `if (${parent}.${field.name}) {`,
+        `  return { ...${parent}.${field.name}, __typename: '${field.type}' };`,
+        '}',
+      ].join('\n'),
+    );
+    if (field.relationFromFields?.length) {
+      const condition = field.relationFromFields
+        .map(name => `${parent}.${name} != null`)
+        .join(' && ');
+      statements.push(
+        [
+          `if (${condition}) {`,
+          `  throw new Error('Relation ${model.name}.${field.name} of union ${union.name} is not loaded, add it to include');`,
+          '}',
+        ].join('\n'),
+      );
+    }
+  }
+
+  sourceFile.addFunction({
+    isExported: true,
+    isAsync: true,
+    name: resolverName,
+    parameters: [{ name: `{ ${parent} }`, type: `{ ${parent}: ${model.name} }` }],
+    statements: [...statements, 'return null;'],
+  });
+}
@@ -0,0 +1,196 @@
+import AwaitEventEmitter from 'await-event-emitter';
+import {
+  ClassDeclaration,
+  ImportDeclarationStructure,
+  Node,
+  PropertyDeclaration,
+  SourceFile,
+} from 'ts-morph';
+
+import { generateFileName } from '../helpers/generate-file-name';
+import { createObjectSettings } from '../helpers/object-settings';
+import { VariantOptions } from '../helpers/parse-setting';
+import { updateObjectProperty } from '../helpers/update-object-property';
+import { EventArguments, InputType, Model, OutputType } from '../types';
+
+export function variants(emitter: AwaitEventEmitter) {
+  emitter.on('ModelOutputType', modelOutputType);
+  emitter.on('InputType', inputType);
+}
+
+/**
+ * Generate variants of model class declared by `@Variant()` model setting.
+ * Subcribes on: 'ModelOutputType'
+ */
+function modelOutputType(outputType: OutputType, args: EventArguments) {
+  const { models, getSourceFile } = args;
+  const model = models.get(outputType.name);
+  if (!model) {
+    return;
+  }
+  const sourceFile = getSourceFile({ name: model.name, type: 'model' });
+
+  for (const variant of getVariants(model, args).filter(v => !v.input)) {
+    createVariant({
+      ...args,
+      model,
+      variant,
+      sourceFile,
+      type: 'model',
+      classDeclaration: sourceFile.getClass(model.name),
+    });
+  }
+}
+
+/**
+ * Generate variants of model input class declared by `@InputVariant()` model setting.
+ * Subcribes on: 'InputType'
+ */
+function inputType(args: EventArguments & { inputType: InputType; fileType: string }) {
+  const { inputType, fileType, models, getModelName, getSourceFile } = args;
+  const model = models.get(getModelName(inputType.name) || '');
+  if (!model) {
+    return;
+  }
+  const sourceFile = getSourceFile({ name: inputType.name, type: fileType });
+
+  for (const variant of getVariants(model, args).filter(
+    v => v.input && `${model.name}${String(v.from)}` === inputType.name,
+  )) {
+    createVariant({
+      ...args,
+      model,
+      variant,
+      sourceFile,
+      type: fileType,
+      classDeclaration: sourceFile.getClass(inputType.name),
+    });
+  }
+}
+
+function getVariants(model: Model, args: EventArguments) {
+  if (!model.documentation) {
+    return [];
+  }
+  const { settings } = createObjectSettings({
+    text: model.documentation,
+    config: args.config,
+  });
+  return settings.getVariants();
+}
+
+/**
+ * Copy generated class (with all its decorators) to variant class
+ * with picked/omitted properties.
+ */
+function createVariant(
+  args: EventArguments & {
+    model: Model;
+    variant: VariantOptions;
+    sourceFile: SourceFile;
+    type: string;
+    classDeclaration?: ClassDeclaration;
+  },
+) {
+  const {
+    model,
+    variant,
+    sourceFile,
+    type,
+    classDeclaration,
+    project,
+    output,
+    config,
+  } = args;
+  if (!classDeclaration) {
+    return;
+  }
+  const { pick, omit = [], partial } = variant;
+  // Keep variant in folder of model
+  const filePath = generateFileName({
+    template: config.outputFilePattern,
+    name: variant.name,
+    type,
+    getModelName: () => model.name,
+  });
+  const variantSourceFile = project.createSourceFile(
+    `${output}/${filePath}`,
+    undefined,
+    {
+      overwrite: true,
+    },
+  );
+  const classStructure = classDeclaration.getStructure();
+
+  classStructure.name = variant.name;
+  classStructure.docs = [];
+  // Type decorator only, name, description, directives, etc. belong to origin
+  classStructure.decorators = classStructure.decorators
+    ?.filter(d => ['ObjectType', 'InterfaceType', 'InputType'].includes(d.name))
+    .map(d => ({ ...d, arguments: [] }));
+  classStructure.properties = classStructure.properties
+    ?.filter(p => (!pick || pick.includes(p.name)) && !omit.includes(p.name))
+    .map(p => {
+      // Structure has short name of decorator (MaxLength of Validator.MaxLength)
+      const decorators = classDeclaration
+        .getPropertyOrThrow(p.name)
+        .getDecorators()
+        .map(d => ({ ...d.getStructure(), name: d.getFullName() }));
+      return { ...p, decorators, leadingTrivia: '\n' };
+    });
+
+  variantSourceFile.set({ statements: [classStructure] });
+  if (partial) {
+    for (const property of variantSourceFile
+      .getClassOrThrow(variant.name)
+      .getProperties()) {
+      partialProperty(property);
+    }
+  }
+  variantSourceFile.insertImportDeclarations(
+    0,
+    getUsedImports(sourceFile, variantSourceFile.getText()),
+  );
+}
+
+function partialProperty(property: PropertyDeclaration) {
+  property.setHasQuestionToken(true);
+  property.setHasExclamationToken(false);
+
+  const decorator = property.getDecorator('Field');
+  if (!decorator) {
+    return;
+  }
+  const options = decorator.getArguments().find(a => Node.isObjectLiteralExpression(a));
+  if (Node.isObjectLiteralExpression(options)) {
+    updateObjectProperty({ expression: options, name: 'nullable', value: true });
+  } else {
+    decorator.addArgument('{ nullable: true }');
+  }
+}
+
+/**
+ * Imports of origin file used by variant class.
+ * Variant is generated in the same folder, so module specifiers are kept.
+ */
+function getUsedImports(sourceFile: SourceFile, text: string) {
+  const isUsed = (name: string) => new RegExp(`\\b${name}\\b`).test(text);
+  const result: ImportDeclarationStructure[] = [];
+
+  for (const declaration of sourceFile.getImportDeclarations()) {
+    const structure = declaration.getStructure();
+    const namedImports = declaration
+      .getNamedImports()
+      .map(n => n.getName())
+      .filter(name => isUsed(name));
+    if (
+      namedImports.length > 0 ||
+      (structure.namespaceImport && isUsed(structure.namespaceImport)) ||
+      (structure.defaultImport && isUsed(structure.defaultImport))
+    ) {
+      result.push({ ...structure, namedImports });
+    }
+  }
+
+  return result;
+}
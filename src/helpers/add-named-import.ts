@@ -0,0 +1,18 @@
+import { SourceFile } from 'ts-morph';
+
+/**
+ * Add named import to already generated source file, if it is not imported yet.
+ */
+export function addNamedImport(
+  sourceFile: SourceFile,
+  name: string,
+  moduleSpecifier: string,
+) {
+  const hasImport = sourceFile
+    .getImportDeclarations()
+    .some(d => d.getNamedImports().some(n => n.getName() === name));
+
+  if (!hasImport) {
+    sourceFile.addImportDeclaration({ namedImports: [name], moduleSpecifier });
+  }
+}
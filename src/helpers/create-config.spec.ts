@@ -94,4 +94,78 @@ describe('createConfig', () => {
 
     expect(result.tsConfigFilePath).toEqual('tsconfig.json');
   });
+
+  it('target default', () => {
+    const result = createConfig({});
+
+    expect(result.target).toEqual('nestjs-graphql');
+    expect(result.graphqlModule).toEqual('@nestjs/graphql');
+  });
+
+  it('target type-graphql', () => {
+    const result = createConfig({ target: 'type-graphql', emitResolvers: 'true' });
+
+    expect(result.graphqlModule).toEqual('type-graphql');
+    expect(result.emitResolvers).toEqual(false);
+    expect(result.$warnings).toContainEqual(
+      "Option 'emitResolvers' is not supported by 'type-graphql' target",
+    );
+  });
+
+  it('invalid complexity values', () => {
+    const result = createConfig({
+      complexity_scalar: 'abc',
+      complexity_listMultiplier: '-1',
+    });
+
+    expect(result.complexity).toEqual({ scalar: 1, listMultiplier: 10 });
+    expect(result.$warnings).toEqual([
+      "Invalid complexity_scalar 'abc', 1 is used instead",
+      "Invalid complexity_listMultiplier '-1', 10 is used instead",
+    ]);
+  });
+
+  it('unknown target', () => {
+    const result = createConfig({ target: 'apollo' });
+
+    expect(result.target).toEqual('nestjs-graphql');
+    expect(result.$warnings).toHaveLength(1);
+  });
+
+  it('scalars preset', () => {
+    const result = createConfig({
+      scalarsPreset: 'graphql-scalars',
+      graphqlScalars_Json_name: 'GraphQLJSONObject',
+      graphqlScalars_Json_specifier: 'graphql-scalars',
+    });
+
+    expect(result.graphqlScalars.BigInt).toEqual({
+      name: 'GraphQLBigInt',
+      specifier: 'graphql-scalars',
+    });
+    expect(result.graphqlScalars.Bytes?.name).toEqual('GraphQLByte');
+    expect(result.graphqlScalars.DateTime?.name).toEqual('GraphQLDateTime');
+    expect(result.graphqlScalars.Json?.name).toEqual('GraphQLJSONObject');
+  });
+
+  it('unknown scalars preset', () => {
+    const result = createConfig({ scalarsPreset: 'custom' });
+
+    expect(result.graphqlScalars).toEqual({});
+    expect(result.$warnings).toHaveLength(1);
+  });
+
+  it('unknown enum source', () => {
+    const result = createConfig({ enumSource: 'typescript' });
+
+    expect(result.enumSource).toEqual('generate');
+    expect(result.$warnings).toHaveLength(1);
+  });
+
+  it('unknown graphql field naming', () => {
+    const result = createConfig({ graphqlFieldNaming: 'kebabCase' });
+
+    expect(result.graphqlFieldNaming).toBeUndefined();
+    expect(result.$warnings).toHaveLength(1);
+  });
 });
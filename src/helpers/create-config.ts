@@ -9,6 +9,15 @@ import outmatch from 'outmatch';
 import { ReExport } from '../handlers/re-export';
 import { ImportNameSpec, ObjectSetting } from '../types';
 
+type GeneratorTarget = 'nestjs-graphql' | 'type-graphql';
+type ScalarsPreset = 'graphql-scalars';
+type EnumSource = 'generate' | 'prisma-client' | 'const-object';
+type NativeTypeScalar = ImportNameSpec & {
+  /**
+   * Typescript type of property
+   */
+  propertyType?: string;
+};
 type ConfigFieldSetting = Partial<Omit<ObjectSetting, 'name'>>;
 type DecorateElement = {
   isMatchField: (s: string) => boolean;
@@ -95,6 +104,43 @@ export function createConfig(data: Record<string, unknown>) {
     });
   }
 
+  let target = String(config.target || 'nestjs-graphql') as GeneratorTarget;
+  if (!['nestjs-graphql', 'type-graphql'].includes(target)) {
+    $warnings.push(`Unknown target '${target}', 'nestjs-graphql' is used instead`);
+    target = 'nestjs-graphql';
+  }
+
+  let enumSource = String(config.enumSource || 'generate') as EnumSource;
+  if (!['generate', 'prisma-client', 'const-object'].includes(enumSource)) {
+    $warnings.push(`Unknown enumSource '${enumSource}', 'generate' is used instead`);
+    enumSource = 'generate';
+  }
+
+  const graphqlFieldNaming = config.graphqlFieldNaming as string | undefined;
+  if (graphqlFieldNaming && graphqlFieldNaming !== 'camelCase') {
+    $warnings.push(`Unknown graphqlFieldNaming '${graphqlFieldNaming}', it is ignored`);
+  }
+
+  const scalarsPreset = config.scalarsPreset as ScalarsPreset | undefined;
+  if (scalarsPreset && !scalarsPresets[scalarsPreset]) {
+    $warnings.push(`Unknown scalarsPreset '${String(scalarsPreset)}', it is ignored`);
+  }
+
+  if (target === 'type-graphql') {
+    // Generated resolvers, services and modules depend on NestJS
+    for (const option of [
+      'emitResolvers',
+      'emitRelationResolvers',
+      'emitServices',
+      'emitModules',
+    ]) {
+      if (toBoolean(config[option])) {
+        $warnings.push(`Option '${option}' is not supported by 'type-graphql' target`);
+        config[option] = false;
+      }
+    }
+  }
+
   return {
     outputFilePattern,
     tsConfigFilePath: createTsConfigFilePathValue(config.tsConfigFilePath),
@@ -111,14 +157,56 @@ export function createConfig(data: Record<string, unknown>) {
     requireSingleFieldsInWhereUniqueInput: toBoolean(
       config.requireSingleFieldsInWhereUniqueInput,
     ),
-    graphqlScalars: (config.graphqlScalars || {}) as Record<
+    graphqlScalars: {
+      ...(scalarsPreset && scalarsPresets[scalarsPreset]),
+      ...(config.graphqlScalars as Record<string, ImportNameSpec | undefined>),
+    } as Record<string, ImportNameSpec | undefined>,
+    nativeTypeScalars: (config.nativeTypeScalars || {}) as Record<
       string,
-      ImportNameSpec | undefined
+      NativeTypeScalar | undefined
     >,
     decorate,
+    emitResolvers: toBoolean(config.emitResolvers),
+    emitRelationResolvers: toBoolean(config.emitRelationResolvers),
+    emitServices: toBoolean(config.emitServices),
+    emitModules: toBoolean(config.emitModules),
+    emitSDL: toBoolean(config.emitSDL),
+    emitZod: toBoolean(config.emitZod),
+    inferValidators: toBoolean(config.inferValidators),
+    federation: toBoolean(config.federation),
+    emitConnections: toBoolean(config.emitConnections),
+    emitPagination: toBoolean(config.emitPagination),
+    emitSubscriptions: toBoolean(config.emitSubscriptions),
+    relayNode: toBoolean(config.relayNode),
+    transformNestedInput: toBoolean(config.transformNestedInput),
+    validateNestedInput: toBoolean(config.validateNestedInput),
+    prismaService: config.prismaService as ImportNameSpec | undefined,
+    authorize: config.authorize as ImportNameSpec | undefined,
+    complexity: createComplexity(config.complexity, $warnings),
+    enumSource,
+    graphqlFieldNaming:
+      graphqlFieldNaming === 'camelCase' ? graphqlFieldNaming : undefined,
+    target,
+    graphqlModule: target === 'type-graphql' ? 'type-graphql' : '@nestjs/graphql',
   };
 }
 
+/**
+ * Graphql types of prisma scalars, can be overridden by `graphqlScalars` option.
+ * Decimal is not listed, it is `GraphQLDecimal` (prisma-graphql-type-decimal) by default.
+ */
+const scalarsPresets: Record<
+  ScalarsPreset,
+  Record<string, ImportNameSpec> | undefined
+> = {
+  'graphql-scalars': {
+    BigInt: { name: 'GraphQLBigInt', specifier: 'graphql-scalars' },
+    Bytes: { name: 'GraphQLByte', specifier: 'graphql-scalars' },
+    DateTime: { name: 'GraphQLDateTime', specifier: 'graphql-scalars' },
+    Json: { name: 'GraphQLJSON', specifier: 'graphql-scalars' },
+  },
+};
+
 type ConfigInputItem = {
   typeName: string;
   ALL?: string;
@@ -158,6 +246,42 @@ function createUseInputType(data?: Record<string, ConfigInputItem>) {
   return result;
 }
 
+function createComplexity(value: unknown, $warnings: string[]) {
+  if (!value || (typeof value !== 'object' && !toBoolean(value))) {
+    return;
+  }
+  const options = (typeof value === 'object' ? value : {}) as {
+    scalar?: string | number;
+    listMultiplier?: string | number;
+  };
+  const toComplexity = (name: keyof typeof options, defaultValue: number) => {
+    const option = options[name];
+    if (option === undefined) {
+      return defaultValue;
+    }
+    const result = Number(option);
+    if (!Number.isFinite(result) || result < 0) {
+      $warnings.push(
+        `Invalid complexity_${name} '${String(
+          option,
+        )}', ${defaultValue} is used instead`,
+      );
+      return defaultValue;
+    }
+    return result;
+  };
+  return {
+    /**
+     * Complexity of scalar (or non-list) field
+     */
+    scalar: toComplexity('scalar', 1),
+    /**
+     * Complexity of child multiplied by it for list relation field without `take` argument
+     */
+    listMultiplier: toComplexity('listMultiplier', 10),
+  };
+}
+
 function toBoolean(value: unknown) {
   return ['true', '1', 'on'].includes(String(value));
 }
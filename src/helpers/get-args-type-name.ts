@@ -0,0 +1,32 @@
+import { upperFirst } from 'lodash';
+
+import { pascalCase } from './pascal-case';
+
+/**
+ * Get name of args class for query/mutation field.
+ */
+export function getArgsTypeName(args: {
+  name: string;
+  getModelName(name: string): string | undefined;
+}) {
+  const { name, getModelName } = args;
+  const className = pascalCase(`${name}Args`);
+  const modelName = getModelName(className) || '';
+
+  switch (className) {
+    case `Aggregate${modelName}Args`:
+      return `${modelName}AggregateArgs`;
+    case `GroupBy${modelName}Args`:
+      return `${modelName}GroupByArgs`;
+  }
+
+  return className;
+}
+
+/**
+ * Get name of args class for model relation field (e.g. UserPostsArgs).
+ */
+export function getFieldArgsTypeName(args: { modelName: string; fieldName: string }) {
+  const { modelName, fieldName } = args;
+  return `${modelName}${upperFirst(fieldName)}Args`;
+}
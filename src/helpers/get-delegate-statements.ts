@@ -0,0 +1,26 @@
+import { lowerFirst, upperFirst } from 'lodash';
+
+/**
+ * Statements which call prisma client delegate method with generated args.
+ * Generated args are assigned to prisma args type, so incompatible
+ * types fails on compile time instead of runtime.
+ */
+export function getDelegateStatements(args: {
+  client: string;
+  modelName: string;
+  action: string;
+}) {
+  const { client, modelName, action } = args;
+  const prismaArgsType = `Prisma.${modelName}${upperFirst(action)}Args`;
+  // Prisma requires orderBy in group by if take or skip may be provided
+  // See https://github.com/unlight/prisma-nestjs-graphql/issues/31
+  const callArguments =
+    action === 'groupBy'
+      ? `prismaArgs as ${prismaArgsType} & { orderBy: ${prismaArgsType}['orderBy'] }`
+      : 'prismaArgs';
+
+  return [
+    `const prismaArgs: ${prismaArgsType} = args;`,
+    `return ${client}.${lowerFirst(modelName)}.${action}(${callArguments});`,
+  ];
+}
@@ -0,0 +1,96 @@
+import { EventArguments, GeneratorConfiguration, Model } from '../types';
+
+export type FederationKey = {
+  fields: string[];
+  /**
+   * Name of key in prisma WhereUniqueInput
+   */
+  name: string;
+};
+
+/**
+ * Get entity keys of model from `@id`, `@@id`, `@unique` and `@@unique` attributes.
+ * Primary key goes first.
+ */
+export function getFederationKeys(model: Model): FederationKey[] {
+  const result: FederationKey[] = [];
+
+  for (const field of model.fields.filter(f => f.isId)) {
+    result.push({ fields: [field.name], name: field.name });
+  }
+
+  if (model.primaryKey) {
+    const { fields, name } = model.primaryKey;
+    result.push({ fields, name: name ?? fields.join('_') });
+  }
+
+  for (const field of model.fields.filter(f => f.isUnique)) {
+    result.push({ fields: [field.name], name: field.name });
+  }
+
+  // Name is null, if not set in @@unique
+  const uniqueIndexes = model.uniqueIndexes as {
+    name: string | null;
+    fields: string[];
+  }[];
+  for (const { fields, name } of uniqueIndexes) {
+    result.push({ fields, name: name ?? fields.join('_') });
+  }
+
+  return result;
+}
+
+/**
+ * Get keys of entity, which fields are exposed in graphql schema (not hidden).
+ */
+export function getEntityKeys(args: {
+  model: Model;
+  fieldSettings: EventArguments['fieldSettings'];
+}): FederationKey[] {
+  const { model, fieldSettings } = args;
+  const settings = fieldSettings.get(model.name);
+
+  return getFederationKeys(model).filter(key =>
+    key.fields.every(
+      name => !settings?.get(name)?.shouldHideField({ name: model.name, output: true }),
+    ),
+  );
+}
+
+/**
+ * Model is stub of entity of another subgraph, if it is referenced only through relations:
+ * all its scalar fields are keys and it has only back relations (without foreign keys).
+ */
+export function isEntityStub(args: {
+  model: Model;
+  fieldSettings: EventArguments['fieldSettings'];
+}) {
+  const { model } = args;
+  const keys = getEntityKeys(args);
+  const keyFields = new Set(keys.flatMap(key => key.fields));
+  const relations = model.fields.filter(field => field.kind === 'object');
+
+  return (
+    keys.length > 0 &&
+    relations.length > 0 &&
+    relations.every(field => !field.relationFromFields?.length) &&
+    model.fields.every(field => field.kind === 'object' || keyFields.has(field.name))
+  );
+}
+
+/**
+ * Reference resolver is generated for entity (not stub),
+ * used by federation (resolver) and emit modules (provider).
+ */
+export function hasReferenceResolver(args: {
+  model: Model;
+  config: GeneratorConfiguration;
+  fieldSettings: EventArguments['fieldSettings'];
+}) {
+  // Reference resolver depends on NestJS
+  return (
+    args.config.target === 'nestjs-graphql' &&
+    !isEntityStub(args) &&
+    getEntityKeys(args).length > 0
+  );
+}
@@ -0,0 +1,53 @@
+import { camelCase } from 'lodash';
+
+import { EventArguments } from '../types';
+
+/**
+ * Name of model field in graphql schema set by `@GraphQLName()` setting
+ * or by `graphqlFieldNaming` option, undefined if it is the same as name of prisma field.
+ */
+export function getGraphqlFieldName(args: {
+  name: string;
+  modelName: string;
+  fieldSettings: EventArguments['fieldSettings'];
+  config: EventArguments['config'];
+}): string | undefined {
+  const { name, modelName, fieldSettings, config } = args;
+  const settings = fieldSettings.get(modelName)?.get(name);
+  let result = settings?.fieldArguments()?.name as string | undefined;
+
+  if (!result && config.graphqlFieldNaming === 'camelCase') {
+    result = camelCase(name);
+  }
+
+  return result === name ? undefined : result;
+}
+
+/**
+ * Some fields of models have graphql name, which differs from name of prisma field.
+ */
+export function hasGraphqlFieldNames(args: {
+  fieldSettings: EventArguments['fieldSettings'];
+  config: EventArguments['config'];
+}) {
+  const { fieldSettings, config } = args;
+
+  return (
+    config.graphqlFieldNaming !== undefined ||
+    [...fieldSettings.values()].some(settings =>
+      [...settings.values()].some(s => typeof s.fieldArguments()?.name === 'string'),
+    )
+  );
+}
+
+/**
+ * Statement which maps args with graphql names of fields to args class
+ * with prisma names, unless they are already transformed (e.g. by ValidationPipe).
+ */
+export function getArgsMapStatement(argsTypeName: string) {
+  return [
+    `const args = graphqlArgs instanceof ${argsTypeName}`,
+    `  ? graphqlArgs`,
+    `  : plainToInstance(${argsTypeName}, graphqlArgs as object);`,
+  ].join('\n');
+}
@@ -0,0 +1,71 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { Field } from '../types';
+import { createConfig } from './create-config';
+import { getGraphqlImport } from './get-graphql-import';
+import { getNativeType } from './get-native-type';
+
+describe('getGraphqlImport native type', () => {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const sourceFile = project.createSourceFile('user.model.ts');
+  const config = createConfig({
+    nativeTypeScalars_Uuid_name: 'GraphQLUUID',
+    nativeTypeScalars_Uuid_specifier: 'graphql-scalars',
+    nativeTypeScalars_Date_name: 'GraphQLLocalDate',
+    nativeTypeScalars_Date_specifier: 'graphql-scalars',
+    nativeTypeScalars_Date_propertyType: 'string',
+  });
+  const getSourceFile = () => sourceFile;
+
+  it('native type of field', () => {
+    const field = { name: 'ref', nativeType: ['Uuid', []] } as unknown as Field;
+
+    expect(getNativeType(field)).toEqual('Uuid');
+    expect(getNativeType({ name: 'ref' } as Field)).toBeUndefined();
+  });
+
+  it('configured native type', () => {
+    const result = getGraphqlImport({
+      config,
+      sourceFile,
+      getSourceFile,
+      location: 'scalar',
+      typeName: 'String',
+      nativeType: 'Uuid',
+    });
+
+    expect(result).toEqual({ name: 'GraphQLUUID', specifier: 'graphql-scalars' });
+  });
+
+  it('property type', () => {
+    expect(config.nativeTypeScalars.Date?.propertyType).toEqual('string');
+  });
+
+  it('not configured native type', () => {
+    const result = getGraphqlImport({
+      config,
+      sourceFile,
+      getSourceFile,
+      location: 'scalar',
+      typeName: 'String',
+      nativeType: 'Inet',
+    });
+
+    expect(result).toEqual({ name: 'String', specifier: undefined });
+  });
+
+  it('id has precedence', () => {
+    const result = getGraphqlImport({
+      config,
+      sourceFile,
+      getSourceFile,
+      location: 'scalar',
+      typeName: 'String',
+      nativeType: 'Uuid',
+      isId: true,
+    });
+
+    expect(result.name).toEqual('ID');
+  });
+});
@@ -7,6 +7,10 @@ import { relativePath } from './relative-path';
 export function getGraphqlImport(args: {
   sourceFile: SourceFile;
   typeName: string;
+  /**
+   * Native type of model field, see `nativeTypeScalars` option
+   */
+  nativeType?: string;
   location: FieldLocation;
   isId?: boolean;
   fileType?: string;
@@ -19,6 +23,7 @@ export function getGraphqlImport(args: {
     fileType,
     location,
     typeName,
+    nativeType,
     isId,
     noTypeId,
     sourceFile,
@@ -27,10 +32,12 @@ export function getGraphqlImport(args: {
 
   if (location === 'scalar') {
     if (isId && !noTypeId) {
-      return { name: 'ID', specifier: '@nestjs/graphql' };
+      return { name: 'ID', specifier: config.graphqlModule };
     }
 
-    const graphqlType = config.graphqlScalars[typeName];
+    const graphqlType =
+      (nativeType && config.nativeTypeScalars[nativeType]) ||
+      config.graphqlScalars[typeName];
     if (graphqlType) {
       return { name: graphqlType.name, specifier: graphqlType.specifier };
     }
@@ -38,9 +45,12 @@ export function getGraphqlImport(args: {
     switch (typeName) {
       case 'Float':
       case 'Int':
-        return { name: typeName, specifier: '@nestjs/graphql' };
+        return { name: typeName, specifier: config.graphqlModule };
       case 'DateTime':
-        return { name: 'Date', specifier: undefined };
+        // Explicit scalar, type-graphql resolves Date depending on dateScalarMode
+        return config.target === 'type-graphql'
+          ? { name: 'GraphQLISODateTime', specifier: config.graphqlModule }
+          : { name: 'Date', specifier: undefined };
       case 'true':
       case 'Boolean':
         return { name: 'Boolean', specifier: undefined };
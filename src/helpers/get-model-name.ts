@@ -1,10 +1,19 @@
 import { first, memoize } from 'lodash';
 
-export function createGetModelName(modelNames: string[]) {
+import { GeneratorConfiguration, Model } from '../types';
+import { getFieldArgsTypeName } from './get-args-type-name';
+
+export function createGetModelName(
+  modelNames: string[],
+  features?: { models: Map<string, Model>; config: GeneratorConfiguration },
+) {
   return memoize(tryGetName);
 
   function tryGetName(name: string): string | undefined {
-    return getModelName({ modelNames, name });
+    return (
+      getModelName({ modelNames, name }) ??
+      (features && getFeatureModelName({ ...features, name }))
+    );
   }
 }
 
@@ -127,3 +136,44 @@ const middleKeywords = [
   ['GroupBy', 'Args'],
   ['OrderBy', 'Args'],
 ];
+
+/**
+ * Get model name of type generated by enabled feature (not by prisma),
+ * e.g. relation field args, connection, paginated or subscription payload type.
+ */
+function getFeatureModelName(args: {
+  name: string;
+  models: Map<string, Model>;
+  config: GeneratorConfiguration;
+}) {
+  const { name, models, config } = args;
+
+  for (const model of models.values()) {
+    const names = model.fields
+      .filter(field => field.relationName && field.isList)
+      .map(field =>
+        getFieldArgsTypeName({ modelName: model.name, fieldName: field.name }),
+      );
+    if (config.emitConnections) {
+      names.push(
+        `${model.name}Connection`,
+        `${model.name}Edge`,
+        `${model.name}ConnectionArgs`,
+      );
+    }
+    if (config.emitPagination) {
+      names.push(`Paginated${model.name}`);
+    }
+    if (config.emitSubscriptions) {
+      names.push(
+        `${model.name}Created`,
+        `${model.name}Updated`,
+        `${model.name}Deleted`,
+        `${model.name}SubscriptionFilterArgs`,
+      );
+    }
+    if (names.includes(name)) {
+      return model.name;
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { OutputType, SchemaField } from '../types';
+import { getArgsTypeName } from './get-args-type-name';
+
+export type ModelOperation = {
+  /**
+   * Root type name (Query or Mutation)
+   */
+  rootType: string;
+  /**
+   * Prisma client delegate method (findMany, create, etc.)
+   */
+  action: string;
+  argsTypeName: string;
+  field: SchemaField;
+};
+
+/**
+ * Group fields of root output types (Query, Mutation) by model.
+ */
+export function getModelOperations(args: {
+  outputTypes: OutputType[];
+  getModelName(name: string): string | undefined;
+}) {
+  const { outputTypes, getModelName } = args;
+  const result = new Map<string, ModelOperation[]>();
+
+  for (const outputType of outputTypes) {
+    for (const field of outputType.fields) {
+      const argsTypeName = getArgsTypeName({ name: field.name, getModelName });
+      const modelName = getModelName(argsTypeName);
+      if (
+        !modelName ||
+        !field.name.endsWith(modelName) ||
+        field.outputType.location === 'scalar'
+      ) {
+        continue;
+      }
+      const action = field.name.slice(0, -modelName.length).replace(/One$/, '');
+      const operations = result.get(modelName) ?? [];
+      operations.push({
+        rootType: outputType.name,
+        action,
+        argsTypeName,
+        field,
+      });
+      result.set(modelName, operations);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,44 @@
+import { Field, Model } from '../types';
+
+/**
+ * Name of native database type of model field (e.g. Uuid for `@db.Uuid`)
+ */
+export function getNativeType(field?: Field): string | undefined {
+  const [name] = (field?.nativeType || []) as [string?];
+  return name;
+}
+
+/**
+ * Set native types of model fields from `@db.*` attributes of prisma schema,
+ * DMMF of older prisma versions does not contain them.
+ */
+export function setNativeTypes(model: Model, datamodel: string) {
+  const lines = datamodel.split('\n');
+  const start = lines.findIndex(line =>
+    new RegExp(`^\\s*(model|type)\\s+${model.name}\\s*{`).test(line),
+  );
+  if (start === -1) {
+    return;
+  }
+
+  for (const line of lines.slice(start + 1)) {
+    if (line.trim() === '}') {
+      break;
+    }
+    const match = /^\s*(?<field>\w+)\s.*?@db\.(?<name>\w+)(?:\((?<args>[^)]*)\))?/.exec(
+      line,
+    );
+    const field = model.fields.find(f => f.name === match?.groups?.field);
+    if (!field || field.nativeType) {
+      continue;
+    }
+    // Arguments of native type are optional, e.g. `@db.VarChar(255)`
+    field.nativeType = [
+      match?.groups?.name,
+      (match?.groups?.args || '')
+        .split(',')
+        .map(s => s.trim())
+        .filter(Boolean),
+    ];
+  }
+}
@@ -0,0 +1,24 @@
+import { Model } from '../types';
+
+/**
+ * Get model of output type generated for model (aggregates, group by, count of relations),
+ * e.g. UserCountAggregate -> User.
+ * Other output types, even prefixed by name of model, do not belong to model.
+ */
+export function getOutputTypeModel(args: {
+  name: string;
+  models: Map<string, Model>;
+}): Model | undefined {
+  const { name, models } = args;
+
+  return [...models.values()].find(model =>
+    [
+      `Aggregate${model.name}`,
+      `${model.name}GroupBy`,
+      `${model.name}Count`,
+      ...['Count', 'Avg', 'Sum', 'Min', 'Max'].map(
+        aggregate => `${model.name}${aggregate}Aggregate`,
+      ),
+    ].includes(name),
+  );
+}
@@ -1,4 +1,4 @@
-import { FieldLocation } from '../types';
+import { FieldLocation, GeneratorConfiguration } from '../types';
 
 /**
  * Returns typescript property type.
@@ -6,8 +6,9 @@ import { FieldLocation } from '../types';
 export function getPropertyType(args: {
   type: string;
   location: FieldLocation;
+  enumSource?: GeneratorConfiguration['enumSource'];
 }): string[] {
-  const { type, location } = args;
+  const { type, location, enumSource = 'generate' } = args;
   switch (type) {
     case 'Float':
     case 'Int':
@@ -33,7 +34,8 @@ export function getPropertyType(args: {
     return [type];
   }
   if (location === 'enumTypes') {
-    return [`keyof typeof ${type}`];
+    // Enum of prisma client and const object have union type of values
+    return enumSource === 'generate' ? [`keyof typeof ${type}`] : [type];
   }
   if (location === 'scalar') {
     return [type];
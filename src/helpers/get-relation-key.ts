@@ -0,0 +1,68 @@
+import { Field, Model } from '../types';
+
+export type RelationKey = {
+  /**
+   * Field of parent model, value of which is used as data loader key
+   */
+  parentField: string;
+  /**
+   * Field of related model to match keys, if undefined related records
+   * will be loaded through parent model
+   */
+  relatedField?: string;
+};
+
+/**
+ * Get key fields for batching relation field (by relationFromFields/relationToFields).
+ */
+export function getRelationKey(args: {
+  model: Model;
+  field: Field;
+  models: Map<string, Model>;
+}): RelationKey | undefined {
+  const { model, field, models } = args;
+
+  if (field.relationFromFields?.length === 1) {
+    return {
+      parentField: field.relationFromFields[0],
+      relatedField: String(field.relationToFields?.[0]),
+    };
+  }
+
+  const relatedModel = models.get(field.type);
+  const oppositeField = relatedModel?.fields.find(
+    f => f.relationName === field.relationName && f !== field,
+  );
+
+  if (oppositeField?.relationFromFields?.length === 1) {
+    return {
+      parentField: String(oppositeField.relationToFields?.[0]),
+      relatedField: oppositeField.relationFromFields[0],
+    };
+  }
+
+  // Implicit many-to-many or compound foreign key
+  const idField = model.fields.find(f => f.isId) ?? model.fields.find(f => f.isUnique);
+  if (idField) {
+    return { parentField: idField.name };
+  }
+}
+
+/**
+ * Get relation fields of model which can be batched by data loader.
+ */
+export function getRelationFields(args: { model: Model; models: Map<string, Model> }) {
+  const { model, models } = args;
+  const result: { field: Field; relationKey: RelationKey }[] = [];
+
+  for (const field of model.fields) {
+    const relationKey = field.relationName
+      ? getRelationKey({ model, field, models })
+      : undefined;
+    if (relationKey) {
+      result.push({ field, relationKey });
+    }
+  }
+
+  return result;
+}
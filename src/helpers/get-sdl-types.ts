@@ -0,0 +1,222 @@
+import JSON5 from 'json5';
+import { last } from 'lodash';
+import {
+  ClassDeclaration,
+  Decorator,
+  Node,
+  ObjectLiteralExpression,
+  SourceFile,
+  SyntaxKind,
+} from 'ts-morph';
+
+import { getFieldArgsTypeName } from './get-args-type-name';
+
+export type SdlField = {
+  name: string;
+  /**
+   * Typescript name of graphql type (e.g. Int, GraphQLJSON, UserWhereInput)
+   */
+  typeName: string;
+  isList: boolean;
+  nullable?: boolean | 'items' | 'itemsAndList';
+  description?: string;
+  deprecationReason?: string;
+  defaultValue?: unknown;
+  /**
+   * Name of args class
+   */
+  args?: string;
+};
+
+export type SdlType = {
+  kind: 'type' | 'interface' | 'input' | 'args';
+  name: string;
+  description?: string;
+  fields: SdlField[];
+  /**
+   * Typescript names of implemented interfaces
+   */
+  implements?: string[];
+};
+
+export type SdlUnion = {
+  tsName: string;
+  name: string;
+  /**
+   * Typescript names of member types
+   */
+  types: string[];
+};
+
+export type SdlEnum = {
+  tsName: string;
+  name: string;
+  description?: string;
+  values: string[];
+  /**
+   * Description and deprecation reason of values (`valuesMap` option)
+   */
+  valuesMap?: Record<string, Pick<SdlField, 'description' | 'deprecationReason'>>;
+};
+
+const graphqlTypeDecorators = {
+  ObjectType: 'type',
+  InterfaceType: 'interface',
+  InputType: 'input',
+  ArgsType: 'args',
+} as const;
+
+export function getSdlType(classDeclaration: ClassDeclaration): SdlType | undefined {
+  const [decoratorName, kind] =
+    Object.entries(graphqlTypeDecorators).find(([name]) =>
+      classDeclaration.getDecorator(name),
+    ) ?? [];
+  if (!decoratorName || !kind) {
+    return;
+  }
+  const decorator = classDeclaration.getDecoratorOrThrow(decoratorName);
+  const [name, options] = getDecoratorArguments(decorator);
+  const implementsMatch = /implements:\s*(?:\(\)\s*=>\s*)?\[([\s\w,]*)/.exec(
+    decorator.getText(),
+  );
+  const className = String(classDeclaration.getName());
+  const fields: SdlField[] = [];
+
+  for (const property of classDeclaration.getProperties()) {
+    const fieldDecorator = property.getDecorator('Field');
+    if (!fieldDecorator || property.getDecorator('HideField')) {
+      continue;
+    }
+    const [typeFunction, fieldOptions] = fieldDecorator.getArguments() as (
+      | Node
+      | undefined
+    )[];
+    const match = /^\(\) => (\[?)([\w.]+)/.exec(String(typeFunction?.getText()));
+    if (!match) {
+      continue;
+    }
+    // Options may contain not serializable values (e.g. middleware)
+    const options = Node.isObjectLiteralExpression(fieldOptions)
+      ? getObjectLiteralValues(fieldOptions)
+      : {};
+    fields.push({
+      name: typeof options.name === 'string' ? options.name : property.getName(),
+      typeName: String(last(match[2].split('.'))),
+      isList: Boolean(match[1]),
+      nullable: options.nullable as SdlField['nullable'],
+      description: options.description as string | undefined,
+      deprecationReason: options.deprecationReason as string | undefined,
+      defaultValue: kind === 'type' ? undefined : options.defaultValue,
+      args:
+        kind === 'type' || kind === 'interface'
+          ? getFieldArgsTypeName({
+              modelName: className,
+              fieldName: property.getName(),
+            })
+          : undefined,
+    });
+  }
+
+  return {
+    kind,
+    name: typeof name === 'string' ? name : className,
+    description: (typeof name === 'object' ? name : options)?.description as
+      | string
+      | undefined,
+    fields,
+    implements: implementsMatch?.[1]
+      .split(',')
+      .map(s => s.trim())
+      .filter(Boolean),
+  };
+}
+
+export function getSdlEnums(sourceFile: SourceFile) {
+  const result: SdlEnum[] = [];
+  const calls = sourceFile
+    .getDescendantsOfKind(SyntaxKind.CallExpression)
+    .filter(call => call.getExpression().getText() === 'registerEnumType');
+
+  for (const call of calls) {
+    const [enumArgument, optionsArgument] = call.getArguments();
+    const tsName = enumArgument.getText();
+    const options = Node.isObjectLiteralExpression(optionsArgument)
+      ? getObjectLiteralValues(optionsArgument)
+      : {};
+    const enumDeclaration = sourceFile.getEnum(tsName);
+    result.push({
+      tsName,
+      name: typeof options.name === 'string' ? options.name : tsName,
+      description: options.description as string | undefined,
+      values:
+        enumDeclaration?.getMembers().map(m => m.getName().replace(/^'|'$/g, '')) ?? [],
+      valuesMap: (options.valuesMap ?? options.valuesConfig) as SdlEnum['valuesMap'],
+    });
+  }
+
+  return result;
+}
+
+export function getSdlUnions(sourceFile: SourceFile) {
+  const result: SdlUnion[] = [];
+  const calls = sourceFile
+    .getDescendantsOfKind(SyntaxKind.CallExpression)
+    .filter(call => call.getExpression().getText() === 'createUnionType');
+
+  for (const call of calls) {
+    const [optionsArgument] = call.getArguments();
+    const tsName = call
+      .getFirstAncestorByKind(SyntaxKind.VariableDeclaration)
+      ?.getName();
+    if (!tsName || !Node.isObjectLiteralExpression(optionsArgument)) {
+      continue;
+    }
+    const { name } = getObjectLiteralValues(optionsArgument);
+    const typesText = optionsArgument.getProperty('types')?.getText() ?? '';
+    result.push({
+      tsName,
+      name: typeof name === 'string' ? name : tsName,
+      types:
+        /\[([\s\w,]*)/
+          .exec(typesText)?.[1]
+          .split(',')
+          .map(s => s.trim()) ?? [],
+    });
+  }
+
+  return result;
+}
+
+function getDecoratorArguments(decorator: Decorator) {
+  return decorator.getArguments().map(argument => {
+    // Implemented interfaces are not parsable
+    const text = argument.getText().replace(/,?\s*implements:[^}]*/, '');
+    return text.startsWith('{') ? parseObject(text) : parse(text);
+  }) as [Record<string, unknown> | string | undefined, Record<string, unknown>?];
+}
+
+function getObjectLiteralValues(node: ObjectLiteralExpression) {
+  const result: Record<string, unknown> = {};
+  for (const property of node.getProperties()) {
+    if (Node.isPropertyAssignment(property)) {
+      const value = property.getInitializer()?.getText();
+      result[property.getName()] = value === 'undefined' ? undefined : parse(value);
+    }
+  }
+  return result;
+}
+
+function parseObject(text?: string) {
+  return (parse(text) ?? {}) as Record<string, unknown>;
+}
+
+function parse(text?: string): unknown {
+  if (!text) {
+    return;
+  }
+  try {
+    return JSON5.parse(text);
+  } catch {
+    return;
+  }
+}
@@ -0,0 +1,82 @@
+import { compact } from 'lodash';
+import { DecoratorStructure, OptionalKind } from 'ts-morph';
+
+import { Field, FieldLocation } from '../types';
+import { ObjectSettings } from './object-settings';
+
+type InferValidatorsArgs = {
+  modelField: Field;
+  isRequired: boolean;
+  isList: boolean;
+  location: FieldLocation;
+  typeName: string;
+  settings?: ObjectSettings;
+};
+
+// Native types which have max length as first argument
+const lengthNativeTypes = new Set(['VarChar', 'Char', 'NVarChar', 'NChar']);
+// Decorators which are replaced by each other
+const presenceNames = ['IsNotEmpty', 'IsOptional', 'IsDefined'];
+
+/**
+ * Infer class-validator decorators for input field from model field.
+ * Decorators which are already set by field settings are skipped.
+ */
+export function inferValidators(
+  args: InferValidatorsArgs,
+): OptionalKind<DecoratorStructure>[] {
+  const { settings } = args;
+  const explicitNames = new Set(
+    (settings || [])
+      .filter(s => s.kind === 'Decorator' && s.input)
+      .map(s => s.name.split('.').pop()),
+  );
+  const hasExplicitPresence = presenceNames.some(name => explicitNames.has(name));
+
+  return getDecorators(args).filter(
+    decorator =>
+      !explicitNames.has(decorator.name) &&
+      !(hasExplicitPresence && presenceNames.includes(decorator.name)),
+  );
+}
+
+function getDecorators(args: InferValidatorsArgs) {
+  const { modelField, isRequired, isList, location, typeName } = args;
+  const result: OptionalKind<DecoratorStructure>[] = [];
+  const each = isList ? '{ each: true }' : undefined;
+
+  result.push({ name: isRequired ? 'IsNotEmpty' : 'IsOptional', arguments: [] });
+
+  if (isList) {
+    result.push({ name: 'IsArray', arguments: [] });
+  }
+
+  if (location === 'inputObjectTypes') {
+    result.push({ name: 'ValidateNested', arguments: compact([each]) });
+    return result;
+  }
+
+  if (location === 'enumTypes') {
+    result.push({ name: 'IsEnum', arguments: compact([typeName, each]) });
+    return result;
+  }
+
+  if (typeName === 'Int') {
+    result.push({ name: 'IsInt', arguments: compact([each]) });
+  }
+
+  const [nativeTypeName, nativeTypeArguments] = (modelField.nativeType || []) as [
+    string?,
+    string[]?,
+  ];
+  const maxLength = Number(nativeTypeArguments?.[0]);
+
+  if (nativeTypeName && lengthNativeTypes.has(nativeTypeName) && maxLength > 0) {
+    result.push({
+      name: 'MaxLength',
+      arguments: compact([String(maxLength), each]),
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,38 @@
+import { last } from 'lodash';
+import { PropertyDeclarationStructure } from 'ts-morph';
+
+import { GeneratorConfiguration } from '../types';
+import { ImportDeclarationMap } from './import-declaration-map';
+
+/**
+ * Add class-transformer `Type` (and class-validator `ValidateNested`)
+ * to property of nested input type, unless it is already decorated.
+ * Nested inputs are transformed also if graphql names of fields
+ * must be mapped back to prisma names (see `@GraphQLName()`).
+ */
+export function nestedInputDecorators(args: {
+  property: PropertyDeclarationStructure;
+  graphqlType: string;
+  config: GeneratorConfiguration;
+  importDeclarations: ImportDeclarationMap;
+  hasGraphqlFieldNames: boolean;
+}) {
+  const { property, graphqlType, config, importDeclarations, hasGraphqlFieldNames } =
+    args;
+  const decorators = property.decorators || [];
+  const hasDecorator = (name: string) =>
+    decorators.some(d => last(d.name.split('.')) === name);
+  const isTransformed =
+    config.transformNestedInput ||
+    (hasGraphqlFieldNames && config.target === 'nestjs-graphql');
+
+  if (isTransformed && !hasDecorator('Type')) {
+    decorators.push({ name: 'Type', arguments: [`() => ${graphqlType}`] });
+    importDeclarations.add('Type', 'class-transformer');
+  }
+
+  if (config.validateNestedInput && !hasDecorator('ValidateNested')) {
+    decorators.push({ name: 'ValidateNested', arguments: [] });
+    importDeclarations.add('ValidateNested', 'class-validator');
+  }
+}
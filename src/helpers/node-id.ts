@@ -0,0 +1,22 @@
+import { Model } from '../types';
+
+/**
+ * Single `@id` field named `id`, which can be used as relay node id
+ */
+export function hasNodeId(model: Model) {
+  return model.fields.some(field => field.isId && field.name === 'id');
+}
+
+/**
+ * Decoded id is string, convert it to type of model id
+ */
+export function getNodeId(model: Model, id: string) {
+  switch (model.fields.find(field => field.name === 'id')?.type) {
+    case 'Int':
+    case 'Float':
+      return `Number(${id})`;
+    case 'BigInt':
+      return `BigInt(${id})`;
+  }
+  return id;
+}
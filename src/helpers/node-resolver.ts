@@ -0,0 +1,105 @@
+import { lowerFirst } from 'lodash';
+import { Scope, StructureKind } from 'ts-morph';
+
+import { EventArguments } from '../types';
+import { ImportDeclarationMap } from './import-declaration-map';
+import { getNodeId, hasNodeId } from './node-id';
+import { relativePath } from './relative-path';
+
+/**
+ * Generate resolver of `node(id)` query, which finds record of model by global id.
+ */
+export function createNodeResolver(args: EventArguments) {
+  const { models, getSourceFile, config } = args;
+  const sourceFile = getSourceFile({ name: 'Node', type: 'resolver' });
+  const importDeclarations = new ImportDeclarationMap();
+  const nodeModels = [...models.values()].filter(model => hasNodeId(model));
+  const cases: string[] = [];
+
+  if (nodeModels.length === 0) {
+    return;
+  }
+
+  for (const model of nodeModels) {
+    const where = `{ id: ${getNodeId(model, 'nodeId')} }`;
+    cases.push(
+      [
+        `case '${model.name}': {`,
+        `  const node = await this.prisma.${lowerFirst(
+          model.name,
+        )}.findUnique({ where: ${where} });`,
+        `  return node && Object.assign(new ${model.name}(), node);`,
+        '}',
+      ].join('\n'),
+    );
+    importDeclarations.add(
+      model.name,
+      relativePath(
+        sourceFile.getFilePath(),
+        getSourceFile({ name: model.name, type: 'model' }).getFilePath(),
+      ),
+    );
+  }
+
+  importDeclarations.add('Args', config.graphqlModule);
+  importDeclarations.add('ID', config.graphqlModule);
+  importDeclarations.add('Query', config.graphqlModule);
+  importDeclarations.add('Resolver', config.graphqlModule);
+  importDeclarations.add('PrismaClient', '@prisma/client');
+  for (const name of ['Node', 'fromGlobalId']) {
+    importDeclarations.add(
+      name,
+      relativePath(
+        sourceFile.getFilePath(),
+        getSourceFile({ name: 'Node', type: 'interface' }).getFilePath(),
+      ),
+    );
+  }
+
+  sourceFile.set({
+    statements: [
+      ...importDeclarations.toStatements(),
+      {
+        kind: StructureKind.Class,
+        isExported: true,
+        name: 'NodeResolver',
+        decorators: [{ name: 'Resolver', arguments: ['() => Node'] }],
+        ctors: [
+          {
+            parameters: [
+              {
+                name: 'prisma',
+                type: 'PrismaClient',
+                scope: Scope.Private,
+                isReadonly: true,
+              },
+            ],
+          },
+        ],
+        methods: [
+          {
+            name: 'node',
+            isAsync: true,
+            decorators: [
+              { name: 'Query', arguments: ['() => Node', '{ nullable: true }'] },
+            ],
+            parameters: [
+              {
+                name: 'id',
+                type: 'string',
+                decorators: [
+                  { name: 'Args', arguments: [`'id'`, '{ type: () => ID }'] },
+                ],
+              },
+            ],
+            statements: [
+              'const { typeName, id: nodeId } = fromGlobalId(id);',
+              `switch (typeName) {\n${cases.join('\n')}\n}`,
+              'return null;',
+            ],
+          },
+        ],
+      },
+    ],
+  });
+}
@@ -4,13 +4,24 @@ import outmatch from 'outmatch';
 import { PlainObject } from 'simplytyped';
 
 import { GeneratorConfiguration } from '../types';
+import { parseSetting, VariantOptions } from './parse-setting';
 
 export type ObjectSetting = {
   /**
    * Act as named import or namespaceImport or defaultImport
    */
   name: string;
-  kind: 'Decorator' | 'Field' | 'FieldType' | 'PropertyType' | 'ObjectType';
+  kind:
+    | 'Decorator'
+    | 'Field'
+    | 'FieldType'
+    | 'PropertyType'
+    | 'ObjectType'
+    | 'Implements'
+    | 'Union'
+    | 'Variant'
+    | 'Authorize'
+    | 'Complexity';
   arguments?: string[] | Record<string, unknown>;
   input: boolean;
   output: boolean;
@@ -98,7 +109,10 @@ export class ObjectSettings extends Array<ObjectSetting> {
     return propertyType;
   }
 
-  getObjectTypeArguments(options: Record<string, any>): string[] {
+  getObjectTypeArguments(
+    options: Record<string, any>,
+    implementsThunk = true,
+  ): string[] {
     const objectTypeOptions = merge({}, options);
     const resultArguments: any[] = [objectTypeOptions];
     const objectType = this.find(s => s.kind === 'ObjectType');
@@ -109,7 +123,63 @@ export class ObjectSettings extends Array<ObjectSetting> {
         resultArguments.unshift(name);
       }
     }
-    return resultArguments.map(x => JSON5.stringify(x));
+    const result = resultArguments.map(x => JSON5.stringify(x));
+    const interfaces = this.getImplements();
+    if (interfaces.length > 0) {
+      // Types are not serializable, append them to options object
+      const list = `[${interfaces.join(', ')}]`;
+      const options = result[result.length - 1].slice(0, -1);
+      result[result.length - 1] = `${options}${options === '{' ? '' : ','}implements:${
+        implementsThunk ? `() => ${list}` : list
+      }}`;
+    }
+    return result;
+  }
+
+  /**
+   * Decorator name of class, ObjectType or InterfaceType
+   */
+  getObjectTypeName(): string {
+    return this.find(s => s.kind === 'ObjectType')?.name || 'ObjectType';
+  }
+
+  getImplements(): string[] {
+    return this.filter(s => s.kind === 'Implements').flatMap(
+      s => s.arguments as string[],
+    );
+  }
+
+  getUnions(): { name: string; fields: string[] }[] {
+    return this.filter(s => s.kind === 'Union').map(
+      s => s.arguments as { name: string; fields: string[] },
+    );
+  }
+
+  /**
+   * Variants of model class (`@Variant()`) or input class (`@InputVariant()`)
+   */
+  getVariants(): (VariantOptions & { input: boolean })[] {
+    return this.filter(s => s.kind === 'Variant').map(s => ({
+      ...(s.arguments as VariantOptions),
+      input: s.input,
+    }));
+  }
+
+  /**
+   * Roles required to access field (or fields of model)
+   */
+  getRoles(): string[] | undefined {
+    return this.find(s => s.kind === 'Authorize')?.arguments as string[] | undefined;
+  }
+
+  /**
+   * Value of `@Complexity()` setting as is, it is validated by complexity handler
+   */
+  getComplexity(): string | undefined {
+    const complexity = this.find(s => s.kind === 'Complexity');
+    if (complexity) {
+      return (complexity.arguments as string[])[0];
+    }
   }
 
   fieldArguments(): Record<string, unknown> | undefined {
@@ -192,6 +262,17 @@ function createSettingElement({
     return result;
   }
 
+  const setting = parseSetting(name, match.groups?.args);
+
+  // Field setting (e.g. `@GraphQLName()`) is merged with options of field
+  if (setting?.kind === 'Field') {
+    merge(fieldElement, { arguments: setting.arguments });
+
+    result.element = fieldElement;
+
+    return result;
+  }
+
   const element: ObjectSetting = {
     kind: 'Decorator',
     name: '',
@@ -204,6 +285,12 @@ function createSettingElement({
 
   result.element = element;
 
+  if (setting) {
+    Object.assign(element, setting);
+
+    return result;
+  }
+
   if (name === 'TypeGraphQL.omit' || name === 'HideField') {
     Object.assign(element, hideFieldDecorator(match));
 
@@ -218,9 +305,13 @@ function createSettingElement({
     return result;
   }
 
-  if (name === 'ObjectType' && match.groups?.args) {
+  if ((name === 'ObjectType' && match.groups?.args) || name === 'InterfaceType') {
     element.kind = 'ObjectType';
-    const options = customType(match.groups.args) as Record<string, unknown>;
+    element.name = name;
+    const options = (match.groups?.args ? customType(match.groups.args) : {}) as Record<
+      string,
+      unknown
+    >;
     if (typeof options[0] === 'string' && options[0]) {
       options.name = options[0];
     }
@@ -237,7 +328,7 @@ function createSettingElement({
 
   if (name === 'Directive' && match.groups?.args) {
     const options = customType(match.groups.args);
-    merge(element, { model: true, from: '@nestjs/graphql' }, options, {
+    merge(element, { model: true, from: config.graphqlModule }, options, {
       name,
       namespace: false,
       kind: 'Decorator',
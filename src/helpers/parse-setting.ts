@@ -0,0 +1,83 @@
+import { trim } from 'lodash';
+
+import { ObjectSetting } from './object-settings';
+
+export type VariantOptions = {
+  name: string;
+  /**
+   * Suffix of input type, e.g. UpdateInput
+   */
+  from?: string;
+  pick?: string[];
+  omit?: string[];
+  partial?: boolean;
+};
+
+type SettingParser = (args: string) => Partial<ObjectSetting> | undefined;
+
+/**
+ * Parsers of settings, which are not decorators,
+ * result is undefined if required arguments are missing.
+ */
+const settingParsers: Record<string, SettingParser | undefined> = {
+  GraphQLName: args =>
+    args ? { kind: 'Field', arguments: { name: trim(args, `'" `) } } : undefined,
+  Implements: args => ({
+    kind: 'Implements',
+    arguments: args
+      .split(',')
+      .map(s => trim(s))
+      .filter(Boolean),
+  }),
+  Union: args => {
+    // Name of union and relation fields, e.g. `CommentTarget, [article, video]`
+    const [name, ...fields] = args.split(/[\s,[\]]+/).filter(Boolean);
+    return name ? { kind: 'Union', arguments: { name, fields } } : undefined;
+  },
+  Variant: args =>
+    args ? { kind: 'Variant', arguments: variantOptions(args) } : undefined,
+  InputVariant: args =>
+    args
+      ? { kind: 'Variant', input: true, arguments: variantOptions(args) }
+      : undefined,
+  Authorize: args => ({
+    kind: 'Authorize',
+    // Roles, quotes are optional, e.g. `'ADMIN', OWNER`
+    arguments: args
+      .split(',')
+      .map(s => trim(s, ` '"`))
+      .filter(Boolean),
+  }),
+  // Value is validated by complexity handler
+  Complexity: args =>
+    args ? { kind: 'Complexity', arguments: [trim(args)] } : undefined,
+};
+
+/**
+ * Parse setting by its name, undefined if it is decorator.
+ */
+export function parseSetting(name: string, args = '') {
+  return settingParsers[name]?.(args);
+}
+
+/**
+ * Parse variant options, e.g. `UserPublic, { pick: [id, name] }`
+ */
+function variantOptions(args: string): VariantOptions {
+  const result: VariantOptions = { name: trim(args.split(',', 1)[0]) };
+  for (const [, key, value] of args.matchAll(/(\w+)\s*:\s*(\[[\s\w,]*|\w+)/g)) {
+    if (['pick', 'omit'].includes(key)) {
+      result[key as 'pick' | 'omit'] = value
+        .slice(1)
+        .split(',')
+        .map(s => trim(s))
+        .filter(Boolean);
+    } else if (key === 'from') {
+      result.from = value;
+    } else if (key === 'partial') {
+      result.partial = value === 'true';
+    }
+  }
+
+  return result;
+}
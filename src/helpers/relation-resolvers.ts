@@ -0,0 +1,267 @@
+import { ok } from 'assert';
+import JSON5 from 'json5';
+import { lowerFirst } from 'lodash';
+import {
+  ClassDeclarationStructure,
+  MethodDeclarationStructure,
+  Scope,
+  SourceFile,
+  StructureKind,
+} from 'ts-morph';
+
+import { EventArguments, Field, Model, OutputType } from '../types';
+import { getFieldArgsTypeName } from './get-args-type-name';
+import {
+  getArgsMapStatement,
+  getGraphqlFieldName,
+  hasGraphqlFieldNames,
+} from './get-graphql-field-name';
+import { getRelationFields, RelationKey } from './get-relation-key';
+import { ImportDeclarationMap } from './import-declaration-map';
+import { relativePath } from './relative-path';
+import { getUnionTypes, UnionType } from './union-type';
+
+const nestjsGraphql = '@nestjs/graphql';
+
+/**
+ * Generate resolver class per model with resolve field methods for relation fields only,
+ * if resolvers of models are not generated (see `emitResolvers`).
+ */
+export function createRelationResolvers(
+  outputTypes: OutputType[],
+  args: EventArguments,
+) {
+  const { models, getSourceFile } = args;
+  const modelOutputTypes = new Map(outputTypes.map(o => [o.name, o]));
+
+  for (const outputType of outputTypes) {
+    const model = models.get(outputType.name);
+    if (!model || getRelationFields({ model, models }).length === 0) {
+      continue;
+    }
+    const sourceFile = getSourceFile({ name: model.name, type: 'resolver' });
+    const importDeclarations = new ImportDeclarationMap();
+    const classStructure: ClassDeclarationStructure = {
+      kind: StructureKind.Class,
+      isExported: true,
+      name: `${model.name}Resolver`,
+      decorators: [{ name: 'Resolver', arguments: [`() => ${model.name}`] }],
+      ctors: [{ parameters: [] }],
+      methods: [],
+    };
+
+    importDeclarations.add('Resolver', nestjsGraphql);
+    importDeclarations.add(
+      model.name,
+      relativePath(
+        sourceFile.getFilePath(),
+        getSourceFile({ name: model.name, type: 'model' }).getFilePath(),
+      ),
+    );
+    addRelationResolvers({
+      ...args,
+      modelName: model.name,
+      modelOutputTypes,
+      sourceFile,
+      classStructure,
+      importDeclarations,
+    });
+
+    sourceFile.set({
+      statements: [...importDeclarations.toStatements(), classStructure],
+    });
+  }
+}
+
+/**
+ * Add resolve field methods for relation fields, which are loaded by generated data loader.
+ */
+export function addRelationResolvers(
+  args: EventArguments & {
+    modelName: string;
+    modelOutputTypes: Map<string, OutputType>;
+    sourceFile: SourceFile;
+    classStructure: ClassDeclarationStructure;
+    importDeclarations: ImportDeclarationMap;
+  },
+) {
+  const {
+    modelName,
+    models,
+    modelOutputTypes,
+    sourceFile,
+    classStructure,
+    importDeclarations,
+    getSourceFile,
+    config,
+  } = args;
+  const model = models.get(modelName);
+  const outputType = modelOutputTypes.get(modelName);
+  const relationFields = model ? getRelationFields({ model, models }) : [];
+  if (!model || !outputType || relationFields.length === 0) {
+    return;
+  }
+  const loaderName = `${lowerFirst(modelName)}Loader`;
+  const parentName = lowerFirst(modelName);
+
+  classStructure.ctors?.[0].parameters?.push({
+    name: loaderName,
+    type: `${modelName}Loader`,
+    scope: Scope.Private,
+    isReadonly: true,
+  });
+  importDeclarations.add(
+    `${modelName}Loader`,
+    relativePath(
+      sourceFile.getFilePath(),
+      getSourceFile({ name: modelName, type: 'loader' }).getFilePath(),
+    ),
+  );
+  importDeclarations.add('ResolveField', nestjsGraphql);
+  importDeclarations.add('Parent', nestjsGraphql);
+  const isArgsMapped = hasGraphqlFieldNames(args);
+
+  for (const { field: modelField, relationKey } of relationFields) {
+    const field = outputType.fields.find(f => f.name === modelField.name);
+    if (!field) {
+      continue;
+    }
+    const argsType =
+      field.args.length > 0
+        ? getFieldArgsTypeName({ modelName, fieldName: field.name })
+        : undefined;
+    const keyField = model.fields.find(f => f.name === relationKey.parentField);
+    const key = `${parentName}.${relationKey.parentField}`;
+    const name = getGraphqlFieldName({ ...args, name: field.name });
+    const load = `this.${loaderName}.${modelField.name}(${
+      argsType ? 'args' : ''
+    }).load(${key})`;
+
+    if (argsType) {
+      importDeclarations.add('Args', nestjsGraphql);
+      if (isArgsMapped) {
+        importDeclarations.add('plainToInstance', 'class-transformer');
+      }
+      importDeclarations.add(
+        argsType,
+        relativePath(
+          sourceFile.getFilePath(),
+          getSourceFile({ name: argsType, type: 'args' }).getFilePath(),
+        ),
+      );
+    }
+    importDeclarations.add(
+      modelField.type,
+      relativePath(
+        sourceFile.getFilePath(),
+        getSourceFile({ name: modelField.type, type: 'model' }).getFilePath(),
+      ),
+    );
+
+    classStructure.methods?.push({
+      kind: StructureKind.Method,
+      name: modelField.name,
+      decorators: [
+        {
+          name: 'ResolveField',
+          arguments: [
+            modelField.isList
+              ? `() => [${modelField.type}]`
+              : `() => ${modelField.type}`,
+            JSON5.stringify({ name, nullable: Boolean(field.isNullable) }),
+          ],
+        },
+      ],
+      parameters: [
+        {
+          name: parentName,
+          type: modelName,
+          decorators: [{ name: 'Parent', arguments: [] }],
+        },
+        ...(argsType
+          ? [
+              {
+                name: isArgsMapped ? 'graphqlArgs' : 'args',
+                type: argsType,
+                decorators: [{ name: 'Args', arguments: [] }],
+              },
+            ]
+          : []),
+      ],
+      statements: [
+        ...(argsType && isArgsMapped ? [getArgsMapStatement(argsType)] : []),
+        keyField?.isRequired
+          ? `return ${load};`
+          : `return ${key} == null ? ${modelField.isList ? '[]' : 'null'} : ${load};`,
+      ],
+    });
+  }
+
+  for (const union of getUnionTypes({ model, config })) {
+    importDeclarations.add(
+      union.name,
+      relativePath(
+        sourceFile.getFilePath(),
+        getSourceFile({ name: modelName, type: 'model' }).getFilePath(),
+      ),
+    );
+    classStructure.methods?.push(
+      unionResolveField({ model, union, relationFields, loaderName, parentName }),
+    );
+  }
+}
+
+/**
+ * Resolve field of union type, which loads relations by their keys
+ * (foreign key scalars of parent), relations are not needed to be included.
+ */
+function unionResolveField(args: {
+  model: Model;
+  union: UnionType;
+  relationFields: { field: Field; relationKey: RelationKey }[];
+  loaderName: string;
+  parentName: string;
+}): MethodDeclarationStructure {
+  const { model, union, relationFields, loaderName, parentName } = args;
+  const statements: string[] = [];
+
+  for (const field of union.relations) {
+    const relationKey = relationFields.find(
+      r => r.field.name === field.name,
+    )?.relationKey;
+    ok(relationKey, `Cannot find key of relation ${model.name}.${field.name}`);
+    const keyField = model.fields.find(f => f.name === relationKey.parentField);
+    const key = `${parentName}.${relationKey.parentField}`;
+    const load = [
+      `const ${field.name} = await this.${loaderName}.${field.name}().load(${key});`,
+      `if (${field.name}) {`,
+      `  return { ...${field.name}, __typename: '${field.type}' };`,
+      '}',
+    ];
+    statements.push(
+      keyField?.isRequired
+        ? load.join('\n')
+        : [`if (${key} != null) {`, ...load.map(line => `  ${line}`), '}'].join('\n'),
+    );
+  }
+
+  return {
+    kind: StructureKind.Method,
+    name: union.propertyName,
+    isAsync: true,
+    decorators: [
+      {
+        name: 'ResolveField',
+        arguments: [`() => ${union.name}`, JSON5.stringify({ nullable: true })],
+      },
+    ],
+    parameters: [
+      {
+        name: parentName,
+        type: model.name,
+        decorators: [{ name: 'Parent', arguments: [] }],
+      },
+    ],
+    statements: [...statements, 'return null;'],
+  };
+}
@@ -0,0 +1,55 @@
+import { ok } from 'assert';
+import { lowerFirst } from 'lodash';
+
+import { Field, GeneratorConfiguration, Model } from '../types';
+import { createObjectSettings } from './object-settings';
+
+export type UnionType = {
+  name: string;
+  /**
+   * Name of union field in model class, name of union without model prefix,
+   * e.g. CommentTarget -> target
+   */
+  propertyName: string;
+  relations: Field[];
+};
+
+/**
+ * Get union types of relation fields (polymorphic relation)
+ * declared by `@Union()` model setting.
+ */
+export function getUnionTypes(args: {
+  model: Model;
+  config: GeneratorConfiguration;
+}): UnionType[] {
+  const { model, config } = args;
+  if (!model.documentation) {
+    return [];
+  }
+  const { settings } = createObjectSettings({ text: model.documentation, config });
+
+  return settings.getUnions().map(union => ({
+    name: union.name,
+    propertyName: lowerFirst(
+      union.name.startsWith(model.name) && union.name !== model.name
+        ? union.name.slice(model.name.length)
+        : union.name,
+    ),
+    relations: union.fields.map(name => {
+      const field = model.fields.find(f => f.name === name && f.kind === 'object');
+      ok(
+        field,
+        `Field ${model.name}.${name} of union ${union.name} must be a relation`,
+      );
+      return field;
+    }),
+  }));
+}
+
+/**
+ * Union field is resolved by data loader in relation resolvers if they are generated,
+ * otherwise by field middleware from relations loaded by `include`.
+ */
+export function isUnionResolvedByLoader(config: GeneratorConfiguration) {
+  return config.emitRelationResolvers;
+}
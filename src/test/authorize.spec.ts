@@ -0,0 +1,136 @@
+import expect from 'expect';
+import { Project, SyntaxKind } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+describe('authorize', () => {
+  const schema = `
+    model User {
+      id    Int    @id
+      name  String
+      /// @Authorize('ADMIN', 'OWNER')
+      email String
+    }
+    /// @Authorize(ADMIN)
+    model Secret {
+      id    Int    @id
+      value String
+    }
+    model UserPost {
+      id    Int    @id
+      email String
+    }
+    `;
+
+  describe('extensions', () => {
+    before(async () => {
+      ({ project } = await testGenerate({ schema }));
+    });
+
+    it('protected field of model', () => {
+      const { propertyDecorators, namedImports } = testSourceFile({
+        project,
+        class: 'User',
+        property: 'email',
+      });
+      expect(propertyDecorators?.find(d => d.name === 'Extensions')?.arguments).toEqual(
+        [`{roles:['ADMIN','OWNER']}`],
+      );
+      expect(namedImports).toContainEqual({
+        name: 'Extensions',
+        specifier: '@nestjs/graphql',
+      });
+    });
+
+    it('not protected field', () => {
+      const { propertyDecorators } = testSourceFile({
+        project,
+        class: 'User',
+        property: 'name',
+      });
+      expect(propertyDecorators?.map(d => d.name)).toEqual(['Field']);
+    });
+
+    it('protected field of output type', () => {
+      const { propertyDecorators } = testSourceFile({
+        project,
+        class: 'UserGroupBy',
+        property: 'email',
+      });
+      expect(propertyDecorators?.map(d => d.name)).toContain('Extensions');
+    });
+
+    it('model setting protects all fields', () => {
+      for (const property of ['id', 'value']) {
+        const { propertyDecorators } = testSourceFile({
+          project,
+          class: 'Secret',
+          property,
+        });
+        expect(
+          propertyDecorators?.find(d => d.name === 'Extensions')?.arguments,
+        ).toEqual([`{roles:['ADMIN']}`]);
+      }
+    });
+
+    it('registry', () => {
+      const { sourceFile } = testSourceFile({
+        project,
+        file: 'authorized-fields.registry.ts',
+      });
+      const initializer = sourceFile
+        .getVariableDeclarationOrThrow('authorizedFields')
+        .getInitializerOrThrow()
+        .getText();
+      expect(initializer).toContain(`User: {email:['ADMIN','OWNER']},`);
+      expect(initializer).toContain(`Secret: {id:['ADMIN'],value:['ADMIN']},`);
+    });
+
+    it('registry contains model and its output types only', () => {
+      const { sourceFile } = testSourceFile({
+        project,
+        file: 'authorized-fields.registry.ts',
+      });
+      const typeNames = sourceFile
+        .getVariableDeclarationOrThrow('authorizedFields')
+        .getInitializerIfKindOrThrow(SyntaxKind.ObjectLiteralExpression)
+        .getProperties()
+        .map(p => p.asKindOrThrow(SyntaxKind.PropertyAssignment).getName());
+      expect(typeNames).toContain('UserGroupBy');
+      expect(typeNames).toContain('UserCountAggregate');
+      expect(typeNames).toContain('SecretSumAggregate');
+      expect(typeNames.filter(name => name.startsWith('UserPost'))).toEqual([]);
+    });
+  });
+
+  describe('custom decorator', () => {
+    before(async () => {
+      ({ project } = await testGenerate({
+        schema,
+        options: [
+          `authorize_name = "Roles"`,
+          `authorize_specifier = "../src/auth/roles.decorator"`,
+        ],
+      }));
+    });
+
+    it('decorator with roles', () => {
+      const { propertyDecorators, namedImports } = testSourceFile({
+        project,
+        class: 'User',
+        property: 'email',
+      });
+      expect(propertyDecorators?.find(d => d.name === 'Roles')?.arguments).toEqual([
+        `'ADMIN'`,
+        `'OWNER'`,
+      ]);
+      expect(namedImports).toContainEqual({
+        name: 'Roles',
+        specifier: '../../src/auth/roles.decorator',
+      });
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+describe('complexity', () => {
+  const schema = `
+    model User {
+      id    Int    @id
+      name  String
+      /// @Complexity(5)
+      bio   String
+      posts Post[]
+    }
+    model Post {
+      id       Int  @id
+      author   User @relation(fields: [authorId], references: [id])
+      authorId Int
+    }
+    `;
+
+  describe('default', () => {
+    before(async () => {
+      ({ project } = await testGenerate({
+        schema,
+        options: [`complexity = true`],
+      }));
+    });
+
+    it('scalar field', () => {
+      const { fieldDecoratorOptions } = testSourceFile({
+        project,
+        class: 'User',
+        property: 'name',
+      });
+      expect(fieldDecoratorOptions).toContain('complexity: 1');
+    });
+
+    it('single relation field', () => {
+      const { fieldDecoratorOptions } = testSourceFile({
+        project,
+        class: 'Post',
+        property: 'author',
+      });
+      expect(fieldDecoratorOptions).toContain('complexity: 1');
+    });
+
+    it('list relation field multiplied by take', () => {
+      const { fieldDecoratorOptions } = testSourceFile({
+        project,
+        class: 'User',
+        property: 'posts',
+      });
+      expect(fieldDecoratorOptions).toContain(
+        'complexity: ({ args, childComplexity }) => Math.abs(args.take ?? 10) * childComplexity',
+      );
+    });
+
+    it('complexity setting', () => {
+      const { fieldDecoratorOptions } = testSourceFile({
+        project,
+        class: 'User',
+        property: 'bio',
+      });
+      expect(fieldDecoratorOptions).toContain('complexity: 5');
+    });
+
+    it('output type', () => {
+      const { fieldDecoratorOptions } = testSourceFile({
+        project,
+        class: 'UserCountAggregate',
+        property: 'name',
+      });
+      expect(fieldDecoratorOptions).toContain('complexity: 1');
+    });
+  });
+
+  describe('custom', () => {
+    before(async () => {
+      ({ project } = await testGenerate({
+        schema,
+        options: [`complexity_scalar = 2`, `complexity_listMultiplier = 20`],
+      }));
+    });
+
+    it('scalar field', () => {
+      const { fieldDecoratorOptions } = testSourceFile({
+        project,
+        class: 'User',
+        property: 'name',
+      });
+      expect(fieldDecoratorOptions).toContain('complexity: 2');
+    });
+
+    it('list relation field', () => {
+      const { fieldDecoratorOptions } = testSourceFile({
+        project,
+        class: 'User',
+        property: 'posts',
+      });
+      expect(fieldDecoratorOptions).toContain('Math.abs(args.take ?? 20)');
+    });
+  });
+
+  it('disabled by default', async () => {
+    ({ project } = await testGenerate({ schema }));
+    const { fieldDecoratorOptions } = testSourceFile({
+      project,
+      class: 'User',
+      property: 'name',
+    });
+    expect(fieldDecoratorOptions).not.toContain('complexity');
+  });
+
+  it('invalid complexity setting', async () => {
+    const warnings: unknown[] = [];
+    ({ project } = await testGenerate({
+      schema: `
+          model User {
+            id  Int    @id
+            /// @Complexity(abc)
+            bio String
+          }
+          `,
+      options: [`complexity = true`],
+      onConnect: emitter => {
+        emitter.on('Warning', (message: unknown) => warnings.push(message));
+      },
+    }));
+    expect(warnings).toEqual([
+      `Complexity of User.bio must be non-negative integer, 'abc' is ignored`,
+    ]);
+    const { fieldDecoratorOptions } = testSourceFile({
+      project,
+      class: 'User',
+      property: 'bio',
+    });
+    expect(fieldDecoratorOptions).toContain('complexity: 1');
+  });
+});
@@ -0,0 +1,87 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+describe('emit connections', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model User {
+          id Int @id
+          name String
+        }
+        `,
+      options: [`emitConnections = true`],
+    }));
+  });
+
+  it('page info', () => {
+    const { classFile, sourceFile } = testSourceFile({
+      project,
+      class: 'PageInfo',
+    });
+    expect(sourceFile.getFilePath()).toContain('/prisma/page-info.output.ts');
+    expect(classFile.getProperties().map(p => p.getName())).toEqual([
+      'hasNextPage',
+      'hasPreviousPage',
+      'startCursor',
+      'endCursor',
+    ]);
+  });
+
+  it('edge', () => {
+    const { fieldDecoratorType, sourceFile } = testSourceFile({
+      project,
+      class: 'UserEdge',
+      property: 'node',
+    });
+    expect(sourceFile.getFilePath()).toContain('/user/user-edge.output.ts');
+    expect(fieldDecoratorType).toEqual('() => User');
+  });
+
+  it('connection', () => {
+    const { fieldDecoratorType, property, namedImports } = testSourceFile({
+      project,
+      class: 'UserConnection',
+      property: 'edges',
+    });
+    expect(fieldDecoratorType).toEqual('() => [UserEdge]');
+    expect(property?.type).toEqual('Array<UserEdge>');
+    expect(namedImports).toContainEqual({
+      name: 'PageInfo',
+      specifier: '../prisma/page-info.output',
+    });
+  });
+
+  it('connection args', () => {
+    const { classFile, sourceFile } = testSourceFile({
+      project,
+      class: 'UserConnectionArgs',
+    });
+    expect(sourceFile.getFilePath()).toContain('/user/user-connection.args.ts');
+    expect(classFile.getDecorator('ArgsType')).toBeTruthy();
+    expect(classFile.getProperties().map(p => p.getName())).toEqual([
+      'first',
+      'after',
+      'last',
+      'before',
+      'where',
+      'orderBy',
+    ]);
+  });
+
+  it('connection args where and order by', () => {
+    expect(
+      testSourceFile({ project, class: 'UserConnectionArgs', property: 'where' })
+        .fieldDecoratorType,
+    ).toEqual('() => UserWhereInput');
+    expect(
+      testSourceFile({ project, class: 'UserConnectionArgs', property: 'orderBy' })
+        .fieldDecoratorType,
+    ).toEqual('() => [UserOrderByWithRelationAndSearchRelevanceInput]');
+  });
+});
@@ -0,0 +1,135 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+const moduleOptions = (file: string) =>
+  testSourceFile({ project, file })
+    .classFile.getDecoratorOrThrow('Module')
+    .getArguments()[0]
+    .getText();
+
+describe('emit modules', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model User {
+          id Int @id
+        }
+        model Post {
+          id Int @id
+        }
+        `,
+      options: [
+        `outputFilePattern = "{name}.{type}.ts"`,
+        `emitModules = true`,
+        `emitResolvers = true`,
+        `emitServices = true`,
+      ],
+    }));
+  });
+
+  it('model module', () => {
+    const s = testSourceFile({ project, file: 'user.module.ts' });
+    expect(s.classFile.getName()).toEqual('UserModule');
+    expect(moduleOptions('user.module.ts')).toEqual(
+      '{ providers: [UserResolver, UserService], exports: [UserService] }',
+    );
+    expect(s.namedImports).toContainEqual({
+      name: 'UserResolver',
+      specifier: './user.resolver',
+    });
+    expect(s.namedImports).toContainEqual({
+      name: 'UserService',
+      specifier: './user.service',
+    });
+  });
+
+  it('root module imports model modules', () => {
+    const s = testSourceFile({ project, file: 'generated-graphql.module.ts' });
+    expect(s.classFile.getName()).toEqual('GeneratedGraphqlModule');
+    expect(moduleOptions('generated-graphql.module.ts')).toContain(
+      'imports: [UserModule, PostModule]',
+    );
+    expect(s.namedImports).toContainEqual({
+      name: 'PostModule',
+      specifier: './post.module',
+    });
+  });
+
+  it('root module provides prisma client', () => {
+    const s = testSourceFile({ project, file: 'generated-graphql.module.ts' });
+    expect(s.classFile.getDecorator('Global')).toBeTruthy();
+    expect(moduleOptions('generated-graphql.module.ts')).toContain(
+      'exports: [PrismaClient]',
+    );
+  });
+});
+
+describe('emit modules with prisma service', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model User {
+          id Int @id
+        }
+        `,
+      options: [
+        `emitModules = true`,
+        `emitResolvers = true`,
+        `prismaService_name = "PrismaService"`,
+        `prismaService_specifier = "./prisma.service"`,
+      ],
+    }));
+  });
+
+  it('model module provides prisma client by token', () => {
+    const s = testSourceFile({ project, file: 'user.module.ts' });
+    expect(moduleOptions('user.module.ts')).toContain(
+      '{ provide: PrismaClient, useExisting: PrismaService }',
+    );
+    expect(s.namedImports).toContainEqual({
+      name: 'PrismaService',
+      specifier: '../prisma.service',
+    });
+  });
+
+  it('root module is not global', () => {
+    const s = testSourceFile({ project, file: 'generated-graphql.module.ts' });
+    expect(s.classFile.getDecorator('Global')).toBeUndefined();
+  });
+});
+
+describe('emit modules with prisma service and emit single', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model User {
+          id Int @id
+        }
+        `,
+      options: [
+        `emitSingle = true`,
+        `outputFilePattern = "{name}.{type}.ts"`,
+        `emitModules = true`,
+        `emitResolvers = true`,
+        `prismaService_name = "PrismaService"`,
+        `prismaService_specifier = "../src/prisma.service"`,
+      ],
+    }));
+  });
+
+  it('keeps import outside of output', () => {
+    const s = testSourceFile({ project, file: 'index.ts' });
+    expect(s.namedImports).toContainEqual({
+      name: 'PrismaService',
+      specifier: '../src/prisma.service',
+    });
+    expect(
+      s.namedImports.filter(namedImport => namedImport.specifier.startsWith('./')),
+    ).toEqual([]);
+  });
+});
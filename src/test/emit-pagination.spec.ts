@@ -0,0 +1,89 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+describe('emit pagination', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model User {
+          id Int @id
+          name String
+          /// @HideField()
+          password String
+        }
+        `,
+      options: [`emitPagination = true`],
+    }));
+  });
+
+  it('paginated type', () => {
+    const { classFile, sourceFile } = testSourceFile({
+      project,
+      class: 'PaginatedUser',
+    });
+    expect(sourceFile.getFilePath()).toContain('/user/paginated-user.output.ts');
+    expect(classFile.getDecorator('ObjectType')).toBeTruthy();
+    expect(classFile.getProperties().map(p => p.getName())).toEqual([
+      'items',
+      'totalCount',
+      'hasMore',
+    ]);
+  });
+
+  it('items field', () => {
+    const { fieldDecoratorType, property } = testSourceFile({
+      project,
+      class: 'PaginatedUser',
+      property: 'items',
+    });
+    expect(fieldDecoratorType).toEqual('() => [User]');
+    expect(property?.type).toEqual('Array<User>');
+  });
+
+  it('paginate function', () => {
+    const { sourceFile, namedImports } = testSourceFile({
+      project,
+      file: 'user/user.paginate.ts',
+    });
+    const paginate = sourceFile.getFunctionOrThrow('paginateUser');
+    expect(paginate.getParameters().map(p => p.getText())).toEqual([
+      'prisma: PrismaClient',
+      'args: FindManyUserArgs',
+    ]);
+    expect(paginate.getBodyText()).toContain(
+      'const findManyArgs: Prisma.UserFindManyArgs = args;',
+    );
+    expect(paginate.getBodyText()).toContain(
+      'prisma.user.count({ where: findManyArgs.where })',
+    );
+    expect(namedImports).toContainEqual({
+      name: 'FindManyUserArgs',
+      specifier: './find-many-user.args',
+    });
+  });
+
+  it('one more item is requested to get has more', () => {
+    const { sourceFile } = testSourceFile({ project, file: 'user/user.paginate.ts' });
+    const bodyText = sourceFile.getFunctionOrThrow('paginateUser').getBodyText();
+    expect(bodyText).toContain(
+      'prisma.user.findMany({ ...findManyArgs, take: take && take + Math.sign(take) })',
+    );
+    expect(bodyText).toContain(
+      "if (typeof take === 'number' && items.length > Math.abs(take)) {",
+    );
+    expect(bodyText).toContain('items.splice(take > 0 ? -1 : 0, 1);');
+    expect(bodyText).not.toContain(' as ');
+  });
+
+  it('hidden fields are omitted', () => {
+    const { sourceFile } = testSourceFile({ project, file: 'user/user.paginate.ts' });
+    expect(sourceFile.getFunctionOrThrow('paginateUser').getBodyText()).toContain(
+      'items.map(({ password, ...item }) => item)',
+    );
+  });
+});
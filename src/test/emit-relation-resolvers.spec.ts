@@ -0,0 +1,189 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+const schema = `
+        model User {
+          id Int @id
+          name String
+          posts Post[]
+          following User[] @relation("UserFollows")
+          followers User[] @relation("UserFollows")
+        }
+        model Post {
+          id Int @id
+          author User? @relation(fields: [authorId], references: [id])
+          authorId Int?
+        }
+        model Tag {
+          id Int @id
+        }
+        `;
+
+describe('emit relation resolvers', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema,
+      options: [
+        `outputFilePattern = "{name}.{type}.ts"`,
+        `emitResolvers = true`,
+        `emitRelationResolvers = true`,
+      ],
+    }));
+  });
+
+  it('loader class', () => {
+    const s = testSourceFile({ project, file: 'post.loader.ts' });
+    expect(s.classFile.getName()).toEqual('PostLoader');
+    expect(
+      s.classFile.getDecorator('Injectable')?.getArguments()[0]?.getText(),
+    ).toEqual('{ scope: Scope.REQUEST }');
+    expect(s.sourceFile.getImportDeclaration('dataloader')?.getText()).toEqual(
+      "import DataLoader from 'dataloader';",
+    );
+  });
+
+  it('to one relation is loaded by references', () => {
+    const s = testSourceFile({ project, file: 'post.loader.ts' });
+    const method = s.classFile.getMethodOrThrow('author');
+    expect(method.getReturnTypeNode()?.getText()).toEqual(
+      'DataLoader<number, User | null, string>',
+    );
+    expect(method.getBodyText()).toContain('where: { id: { in: [...keys] } }');
+    expect(method.getBodyText()).toContain(
+      'items.find(item => this.toKey(item.id) === this.toKey(key))',
+    );
+  });
+
+  it('list relation is loaded by foreign key', () => {
+    const s = testSourceFile({ project, file: 'user.loader.ts' });
+    const method = s.classFile.getMethodOrThrow('posts');
+    expect(method.getReturnTypeNode()?.getText()).toEqual(
+      'DataLoader<number, Post[], string>',
+    );
+    expect(method.getBodyText()).toContain(
+      'const findManyArgs: Prisma.PostFindManyArgs = args;',
+    );
+    expect(method.getBodyText()).toContain('findMany({ authorId: { in: [...keys] } })');
+    expect(s.namedImports).toContainEqual({
+      name: 'UserPostsArgs',
+      specifier: './user-posts.args',
+    });
+  });
+
+  it('loaders are typed per relation', () => {
+    const s = testSourceFile({ project, file: 'user.loader.ts' });
+    expect(
+      s.classFile.getPropertyOrThrow('postsLoaders').getInitializer()?.getText(),
+    ).toEqual('new Map<string, DataLoader<number, Post[], string>>()');
+    expect(s.sourceText).not.toMatch(/\bany\b/);
+  });
+
+  it('loader keys are normalized', () => {
+    const s = testSourceFile({ project, file: 'user.loader.ts' });
+    expect(s.classFile.getMethodOrThrow('getLoader').getBodyText()).toContain(
+      'cacheKeyFn: key => this.toKey(key)',
+    );
+    const toKey = s.classFile.getMethodOrThrow('toKey').getBodyText();
+    expect(toKey).toContain('value.toISOString()');
+    expect(toKey).toContain('return String(value);');
+  });
+
+  it('many to many relation is loaded through parent', () => {
+    const s = testSourceFile({ project, file: 'user.loader.ts' });
+    const method = s.classFile.getMethodOrThrow('following');
+    expect(method.getBodyText()).toContain('select: { id: true, following:');
+  });
+
+  it('model without relations has no loader', () => {
+    expect(
+      project.getSourceFile(s => s.getFilePath().endsWith('tag.loader.ts')),
+    ).toBeUndefined();
+  });
+
+  it('loader is injected to resolver', () => {
+    const s = testSourceFile({ project, file: 'post.resolver.ts' });
+    const parameter = s.classFile
+      .getConstructors()[0]
+      .getParameterOrThrow('postLoader');
+    expect(parameter.getTypeNode()?.getText()).toEqual('PostLoader');
+    expect(s.namedImports).toContainEqual({
+      name: 'PostLoader',
+      specifier: './post.loader',
+    });
+  });
+
+  it('resolve field for to one relation', () => {
+    const s = testSourceFile({ project, file: 'post.resolver.ts' });
+    const method = s.classFile.getMethodOrThrow('author');
+    expect(method.getDecorator('ResolveField')?.getStructure().arguments).toEqual([
+      '() => User',
+      '{nullable:true}',
+    ]);
+    expect(method.getParameters()[0].getDecorator('Parent')).toBeTruthy();
+    expect(method.getBodyText()).toEqual(
+      'return post.authorId == null ? null : this.postLoader.author().load(post.authorId);',
+    );
+  });
+
+  it('resolve field for list relation with args', () => {
+    const s = testSourceFile({ project, file: 'user.resolver.ts' });
+    const method = s.classFile.getMethodOrThrow('posts');
+    const parameter = method.getParameterOrThrow('args');
+    expect(parameter.getTypeNode()?.getText()).toEqual('UserPostsArgs');
+    expect(parameter.getDecorator('Args')).toBeTruthy();
+    expect(method.getBodyText()).toEqual(
+      'return this.userLoader.posts(args).load(user.id);',
+    );
+  });
+});
+
+describe('emit relation resolvers without resolvers of models', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema,
+      options: [
+        `outputFilePattern = "{name}.{type}.ts"`,
+        `emitRelationResolvers = true`,
+        `emitModules = true`,
+      ],
+    }));
+  });
+
+  it('resolver of relation fields', () => {
+    const s = testSourceFile({ project, file: 'user.resolver.ts' });
+    expect(s.classFile.getName()).toEqual('UserResolver');
+    expect(
+      s.classFile.getDecoratorOrThrow('Resolver').getArguments()[0].getText(),
+    ).toEqual('() => User');
+    expect(s.classFile.getMethods().map(m => m.getName())).toEqual([
+      'posts',
+      'following',
+      'followers',
+    ]);
+    expect(
+      s.classFile
+        .getConstructors()[0]
+        .getParameterOrThrow('userLoader')
+        .getTypeNode()
+        ?.getText(),
+    ).toEqual('UserLoader');
+  });
+
+  it('model without relations has no resolver', () => {
+    expect(
+      project.getSourceFile(s => s.getFilePath().endsWith('tag.resolver.ts')),
+    ).toBeUndefined();
+  });
+
+  it('resolver and loader are provided by module', () => {
+    const s = testSourceFile({ project, file: 'post.module.ts' });
+    expect(
+      s.classFile.getDecoratorOrThrow('Module').getArguments()[0].getText(),
+    ).toEqual('{ providers: [PostResolver, PostLoader], exports: [] }');
+  });
+});
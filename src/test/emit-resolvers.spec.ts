@@ -0,0 +1,126 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+describe('emit resolvers', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model User {
+          id Int @id
+          name String
+          posts Post[]
+        }
+        model Post {
+          id Int @id
+          author User @relation(fields: [authorId], references: [id])
+          authorId Int
+        }
+        `,
+      options: [`outputFilePattern = "{name}.{type}.ts"`, `emitResolvers = true`],
+    }));
+  });
+
+  it('resolver class', () => {
+    const s = testSourceFile({ project, file: 'user.resolver.ts' });
+    expect(s.classFile.getName()).toEqual('UserResolver');
+    expect(s.classFile.getDecorator('Resolver')?.getArguments()[0]?.getText()).toEqual(
+      '() => User',
+    );
+    expect(s.namedImports).toContainEqual({ name: 'User', specifier: './user.model' });
+  });
+
+  it('prisma client is injected', () => {
+    const s = testSourceFile({ project, file: 'user.resolver.ts' });
+    const [parameter] = s.classFile.getConstructors()[0].getParameters();
+    expect(parameter.getName()).toEqual('prisma');
+    expect(parameter.getTypeNode()?.getText()).toEqual('PrismaClient');
+    expect(s.namedImports).toContainEqual({
+      name: 'PrismaClient',
+      specifier: '@prisma/client',
+    });
+  });
+
+  it('find many query', () => {
+    const s = testSourceFile({ project, file: 'user.resolver.ts' });
+    const method = s.classFile.getMethodOrThrow('findManyUser');
+    expect(method.getDecorator('Query')?.getStructure().arguments).toEqual([
+      '() => [User]',
+      '{nullable:false}',
+    ]);
+    expect(method.getParameters()[0].getTypeNode()?.getText()).toEqual(
+      'FindManyUserArgs',
+    );
+    expect(method.getStatements().map(statement => statement.getText())).toEqual([
+      'const prismaArgs: Prisma.UserFindManyArgs = args;',
+      'return this.prisma.user.findMany(prismaArgs);',
+    ]);
+    expect(s.namedImports).toContainEqual({
+      name: 'Prisma',
+      specifier: '@prisma/client',
+    });
+    expect(s.namedImports).toContainEqual({
+      name: 'FindManyUserArgs',
+      specifier: './find-many-user.args',
+    });
+  });
+
+  it('find unique query is nullable', () => {
+    const s = testSourceFile({ project, file: 'user.resolver.ts' });
+    const method = s.classFile.getMethodOrThrow('findUniqueUser');
+    expect(method.getDecorator('Query')?.getStructure().arguments).toEqual([
+      '() => User',
+      '{nullable:true}',
+    ]);
+  });
+
+  it('create mutation', () => {
+    const s = testSourceFile({ project, file: 'user.resolver.ts' });
+    const method = s.classFile.getMethodOrThrow('createOneUser');
+    expect(method.getDecorator('Mutation')).toBeTruthy();
+    expect(method.getStatements().map(statement => statement.getText())).toEqual([
+      'const prismaArgs: Prisma.UserCreateArgs = args;',
+      'return this.prisma.user.create(prismaArgs);',
+    ]);
+  });
+
+  it('aggregate query', () => {
+    const s = testSourceFile({ project, file: 'user.resolver.ts' });
+    const method = s.classFile.getMethodOrThrow('aggregateUser');
+    expect(method.getParameters()[0].getTypeNode()?.getText()).toEqual(
+      'UserAggregateArgs',
+    );
+    expect(s.namedImports).toContainEqual({
+      name: 'AggregateUser',
+      specifier: './aggregate-user.output',
+    });
+  });
+
+  it('group by query', () => {
+    const s = testSourceFile({ project, file: 'user.resolver.ts' });
+    const method = s.classFile.getMethodOrThrow('groupByUser');
+    expect(method.getDecorator('Query')?.getStructure().arguments?.[0]).toEqual(
+      '() => [UserGroupBy]',
+    );
+    expect(method.getStatements().map(statement => statement.getText())).toEqual([
+      'const prismaArgs: Prisma.UserGroupByArgs = args;',
+      "return this.prisma.user.groupBy(prismaArgs as Prisma.UserGroupByArgs & { orderBy: Prisma.UserGroupByArgs['orderBy'] });",
+    ]);
+  });
+
+  it('delete many mutation returns affected rows', () => {
+    const s = testSourceFile({ project, file: 'post.resolver.ts' });
+    const method = s.classFile.getMethodOrThrow('deleteManyPost');
+    expect(method.getDecorator('Mutation')?.getStructure().arguments?.[0]).toEqual(
+      '() => AffectedRows',
+    );
+    expect(method.getStatements().map(statement => statement.getText())).toEqual([
+      'const prismaArgs: Prisma.PostDeleteManyArgs = args;',
+      'return this.prisma.post.deleteMany(prismaArgs);',
+    ]);
+  });
+});
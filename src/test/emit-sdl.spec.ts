@@ -0,0 +1,185 @@
+import expect from 'expect';
+import fs from 'fs';
+
+import { EventArguments } from '../types';
+import { testGenerate } from './test-generate';
+
+let sdl: string;
+
+describe('emit sdl', () => {
+  before(async () => {
+    let output = '';
+    await testGenerate({
+      schema: `
+        /// User account
+        /// @Variant(UserPublic, { pick: [id, email] })
+        model User {
+          id Int @id
+          /// Email address
+          email String
+          createdAt DateTime
+          data Json?
+          role Role
+          /// @HideField()
+          password String
+          posts Post[]
+        }
+        model Post {
+          id Int @id
+          author User @relation(fields: [authorId], references: [id])
+          authorId Int
+        }
+        enum Role {
+          USER
+          ADMIN
+        }
+        `,
+      options: [
+        `outputFilePattern = "{name}.{type}.ts"`,
+        `emitSDL = true`,
+        `emitResolvers = true`,
+        `emitRelationResolvers = true`,
+      ],
+      onConnect: emitter => {
+        // Hand written class in output folder
+        emitter.on('BeforeGenerateFiles', ({ project, output }: EventArguments) => {
+          project.createSourceFile(
+            `${output}/user-filter.input.ts`,
+            `@InputType()
+            export class UserFilterInput {
+              @Field(() => [Role], { defaultValue: ['USER', 'ADMIN'] })
+              roles!: Array<keyof typeof Role>;
+              @Field(() => GraphQLJSON, { defaultValue: { tags: ['a'], count: 1 } })
+              options!: object;
+            }`,
+            { overwrite: true },
+          );
+        });
+        emitter.on('End', (args: EventArguments) => {
+          output = args.output;
+        });
+      },
+    });
+    sdl = fs.readFileSync(`${output}/schema.graphql`, 'utf8');
+  });
+
+  it('model object type', () => {
+    expect(sdl).toContain('"""User account"""\ntype User {\n  id: ID!\n');
+    expect(sdl).toContain('  """Email address"""\n  email: String!\n');
+  });
+
+  it('hidden field is not in object type', () => {
+    const userType = sdl.slice(sdl.indexOf('type User {'));
+    expect(userType.slice(0, userType.indexOf('}'))).not.toContain('password');
+  });
+
+  it('custom scalars', () => {
+    expect(sdl).toContain('scalar DateTime');
+    expect(sdl).toContain('scalar JSON');
+    expect(sdl).toContain('  createdAt: DateTime!\n');
+    expect(sdl).toContain('  data: JSON\n');
+  });
+
+  it('enum', () => {
+    expect(sdl).toContain('enum Role {\n  USER\n  ADMIN\n}');
+  });
+
+  it('input type', () => {
+    expect(sdl).toContain('input UserWhereInput {');
+    expect(sdl).toContain('  AND: [UserWhereInput!]\n');
+  });
+
+  it('relation field args', () => {
+    expect(sdl).toContain('  posts(where: PostWhereInput, orderBy: [');
+  });
+
+  it('variant class', () => {
+    expect(sdl).toContain('type UserPublic {\n  id: ID!\n');
+  });
+
+  it('default values as graphql literals', () => {
+    expect(sdl).toContain('  roles: [Role!]! = [USER, ADMIN]\n');
+    expect(sdl).toContain('  options: JSON! = {tags: ["a"], count: 1}\n');
+  });
+
+  it('args types in query and mutation', () => {
+    expect(sdl).toContain('type Query {');
+    expect(sdl).toContain('  findUniqueUser(where: UserWhereUniqueInput!): User\n');
+    expect(sdl).toContain('type Mutation {');
+    expect(sdl).toContain('  createOneUser(data: UserCreateInput!): User!\n');
+  });
+});
+
+describe('emit sdl without resolvers', () => {
+  before(async () => {
+    let output = '';
+    await testGenerate({
+      schema: `
+        model User {
+          id Int @id
+          posts Post[]
+        }
+        model Post {
+          id Int @id
+          author User @relation(fields: [authorId], references: [id])
+          authorId Int
+        }
+        `,
+      options: [
+        `outputFilePattern = "{name}.{type}.ts"`,
+        `emitSDL = true`,
+        `emitSingle = true`,
+      ],
+      onConnect: emitter => {
+        emitter.on('End', (args: EventArguments) => {
+          output = args.output;
+        });
+      },
+    });
+    sdl = fs.readFileSync(`${output}/schema.graphql`, 'utf8');
+  });
+
+  it('object types from single file', () => {
+    expect(sdl).toContain('type User {\n  id: ID!\n');
+    expect(sdl).toContain('input UserWhereInput {');
+  });
+
+  it('no query and mutation', () => {
+    expect(sdl).not.toContain('type Query {');
+    expect(sdl).not.toContain('type Mutation {');
+  });
+
+  it('no args of relation field', () => {
+    expect(sdl).toContain('  posts: [Post!]\n');
+  });
+});
+
+describe('emit sdl with relay node', () => {
+  before(async () => {
+    let output = '';
+    await testGenerate({
+      schema: `
+        model User {
+          id Int @id
+        }
+        `,
+      options: [
+        `outputFilePattern = "{name}.{type}.ts"`,
+        `emitSDL = true`,
+        `emitResolvers = true`,
+        `relayNode = true`,
+      ],
+      onConnect: emitter => {
+        emitter.on('End', (args: EventArguments) => {
+          output = args.output;
+        });
+      },
+    });
+    sdl = fs.readFileSync(`${output}/schema.graphql`, 'utf8');
+  });
+
+  it('node query', () => {
+    expect(sdl).toContain('  node(id: ID!): Node\n');
+    expect(sdl).toContain('type User implements Node {');
+  });
+});
@@ -0,0 +1,77 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+describe('emit services', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model User {
+          id Int @id
+          name String
+        }
+        `,
+      options: [
+        `outputFilePattern = "{name}.{type}.ts"`,
+        `emitServices = true`,
+        `emitResolvers = true`,
+      ],
+    }));
+  });
+
+  it('service class', () => {
+    const s = testSourceFile({ project, file: 'user.service.ts' });
+    expect(s.classFile.getName()).toEqual('UserService');
+    expect(s.classFile.getDecorator('Injectable')).toBeTruthy();
+    expect(s.namedImports).toContainEqual({
+      name: 'Injectable',
+      specifier: '@nestjs/common',
+    });
+  });
+
+  it('find many method', () => {
+    const s = testSourceFile({ project, file: 'user.service.ts' });
+    const method = s.classFile.getMethodOrThrow('findMany');
+    expect(method.getParameters()[0].getTypeNode()?.getText()).toEqual(
+      'FindManyUserArgs',
+    );
+    expect(method.getStatements().map(statement => statement.getText())).toEqual([
+      'const prismaArgs: Prisma.UserFindManyArgs = args;',
+      'return this.prisma.user.findMany(prismaArgs);',
+    ]);
+    expect(s.namedImports).toContainEqual({
+      name: 'Prisma',
+      specifier: '@prisma/client',
+    });
+  });
+
+  it('create method', () => {
+    const s = testSourceFile({ project, file: 'user.service.ts' });
+    const method = s.classFile.getMethodOrThrow('create');
+    expect(method.getParameters()[0].getTypeNode()?.getText()).toEqual(
+      'CreateOneUserArgs',
+    );
+    expect(method.getStatements().map(statement => statement.getText())).toEqual([
+      'const prismaArgs: Prisma.UserCreateArgs = args;',
+      'return this.prisma.user.create(prismaArgs);',
+    ]);
+  });
+
+  it('resolver uses service', () => {
+    const s = testSourceFile({ project, file: 'user.resolver.ts' });
+    const [parameter] = s.classFile.getConstructors()[0].getParameters();
+    expect(parameter.getName()).toEqual('userService');
+    expect(parameter.getTypeNode()?.getText()).toEqual('UserService');
+    expect(s.namedImports).toContainEqual({
+      name: 'UserService',
+      specifier: './user.service',
+    });
+    expect(s.classFile.getMethodOrThrow('groupByUser').getBodyText()).toEqual(
+      'return this.userService.groupBy(args);',
+    );
+  });
+});
@@ -0,0 +1,52 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+describe('emit subscriptions', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model User {
+          id Int @id
+          name String
+        }
+        `,
+      options: [`emitSubscriptions = true`],
+    }));
+  });
+
+  for (const name of ['UserCreated', 'UserUpdated', 'UserDeleted']) {
+    it(`payload ${name}`, () => {
+      const { classFile, fieldDecoratorType, namedImports } = testSourceFile({
+        project,
+        class: name,
+        property: 'user',
+      });
+      expect(classFile.getDecorator('ObjectType')).toBeTruthy();
+      expect(fieldDecoratorType).toEqual('() => User');
+      expect(namedImports).toContainEqual({ name: 'User', specifier: './user.model' });
+    });
+  }
+
+  it('payload file', () => {
+    const { sourceFile } = testSourceFile({ project, class: 'UserCreated' });
+    expect(sourceFile.getFilePath()).toContain('/user/user-created.output.ts');
+  });
+
+  it('filter args', () => {
+    const { classFile, fieldDecoratorType, sourceFile } = testSourceFile({
+      project,
+      class: 'UserSubscriptionFilterArgs',
+      property: 'where',
+    });
+    expect(sourceFile.getFilePath()).toContain(
+      '/user/user-subscription-filter.args.ts',
+    );
+    expect(classFile.getDecorator('ArgsType')).toBeTruthy();
+    expect(fieldDecoratorType).toEqual('() => UserWhereInput');
+  });
+});
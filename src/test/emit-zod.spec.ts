@@ -0,0 +1,142 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+function getSchema(file: string) {
+  const { sourceFile, namedImports } = testSourceFile({ project, file });
+  const declaration = sourceFile.getVariableStatements()[0].getDeclarations()[0];
+  return {
+    name: declaration.getName(),
+    type: declaration.getTypeNode()?.getText(),
+    initializer: declaration.getInitializer()?.getText() ?? '',
+    namedImports,
+  };
+}
+
+describe('emit zod', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model User {
+          id Int @id
+          name String
+          born DateTime?
+          money Decimal
+          data Json
+          role Role
+          posts Post[]
+        }
+        model Post {
+          id Int @id
+          author User @relation(fields: [authorId], references: [id])
+          authorId Int
+        }
+        enum Role {
+          USER
+          ADMIN
+        }
+        `,
+      options: [`outputFilePattern = "{name}.{type}.ts"`, `emitZod = true`],
+    }));
+  });
+
+  it('schema for input class', () => {
+    const s = getSchema('user-create-input.schema.ts');
+    expect(s.name).toEqual('UserCreateInputSchema');
+    expect(s.type).toEqual('z.ZodType<Nullable<UserCreateInput>>');
+    expect(s.namedImports).toContainEqual({ name: 'z', specifier: 'zod' });
+    expect(s.namedImports).toContainEqual({
+      name: 'Nullable',
+      specifier: './nullable.schema',
+    });
+    expect(s.namedImports).toContainEqual({
+      name: 'UserCreateInput',
+      specifier: './user-create.input',
+    });
+  });
+
+  it('required and optional fields', () => {
+    const s = getSchema('user-create-input.schema.ts');
+    expect(s.initializer).toContain('id: z.number().int(),');
+    expect(s.initializer).toContain('name: z.string(),');
+    expect(s.initializer).toContain(
+      'posts: z.lazy(() => PostCreateNestedManyWithoutAuthorInputSchema).optional(),',
+    );
+  });
+
+  it('nullable field', () => {
+    const s = getSchema('user-create-input.schema.ts');
+    expect(s.initializer).toContain('born: z.union([z.date(), z.string()]).nullish(),');
+  });
+
+  it('decimal', () => {
+    const s = getSchema('user-create-input.schema.ts');
+    expect(s.initializer).toContain('money: z.instanceof(Decimal),');
+    expect(s.namedImports).toContainEqual({
+      name: 'Decimal',
+      specifier: '@prisma/client/runtime',
+    });
+  });
+
+  it('json', () => {
+    const s = getSchema('user-create-input.schema.ts');
+    expect(s.initializer).toContain('data: z.lazy(() => JsonSchema),');
+    expect(s.namedImports).toContainEqual({
+      name: 'JsonSchema',
+      specifier: './json.schema',
+    });
+    const json = getSchema('json.schema.ts');
+    expect(json.initializer).toContain('z.array(JsonSchema),');
+    expect(json.initializer).toContain('z.record(JsonSchema),');
+  });
+
+  it('nullable type', () => {
+    const { sourceFile } = testSourceFile({ project, file: 'nullable.schema.ts' });
+    expect(sourceFile.getTypeAliasOrThrow('Nullable').isExported()).toBe(true);
+  });
+
+  it('enum', () => {
+    const s = getSchema('user-create-input.schema.ts');
+    expect(s.initializer).toContain('role: z.nativeEnum(Role),');
+    expect(s.namedImports).toContainEqual({ name: 'Role', specifier: './role.enum' });
+  });
+
+  it('nested input reference', () => {
+    const s = getSchema('user-create-input.schema.ts');
+    expect(s.initializer).toContain(
+      'posts: z.lazy(() => PostCreateNestedManyWithoutAuthorInputSchema).optional(),',
+    );
+    expect(s.namedImports).toContainEqual({
+      name: 'PostCreateNestedManyWithoutAuthorInputSchema',
+      specifier: './post-create-nested-many-without-author-input.schema',
+    });
+  });
+
+  it('self reference is not imported', () => {
+    const s = getSchema('user-where-input.schema.ts');
+    expect(s.initializer).toContain(
+      'AND: z.array(z.lazy(() => UserWhereInputSchema)).optional(),',
+    );
+    expect(s.namedImports.map(x => x.name)).not.toContain('UserWhereInputSchema');
+  });
+
+  it('schema for args class', () => {
+    const s = getSchema('find-many-user-args.schema.ts');
+    expect(s.type).toEqual('z.ZodType<Nullable<FindManyUserArgs>>');
+    expect(s.initializer).toContain('take: z.number().int().optional(),');
+    expect(s.initializer).toContain(
+      'where: z.lazy(() => UserWhereInputSchema).optional(),',
+    );
+  });
+
+  it('list of scalars with different types', () => {
+    const s = getSchema('date-time-nullable-filter.schema.ts');
+    expect(s.initializer).toContain(
+      'in: z.union([z.array(z.date()), z.array(z.string())]).nullish(),',
+    );
+  });
+});
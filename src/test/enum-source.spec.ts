@@ -0,0 +1,120 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+describe('enum source', () => {
+  const schema = `
+    model User {
+      id   Int  @id
+      role Role
+    }
+    enum Role {
+      USER
+      ADMIN
+    }
+    `;
+
+  describe('prisma-client', () => {
+    before(async () => {
+      ({ project } = await testGenerate({
+        schema,
+        options: [`enumSource = "prisma-client"`],
+      }));
+    });
+
+    it('model enum is imported from client', () => {
+      const { sourceFile, namedImports, sourceText } = testSourceFile({
+        project,
+        file: 'role.enum.ts',
+      });
+      expect(sourceFile.getEnum('Role')).toBeUndefined();
+      expect(namedImports).toContainEqual({
+        name: 'Role',
+        specifier: '@prisma/client',
+      });
+      expect(sourceText).toContain('export { Role }');
+      expect(sourceText).toContain(`registerEnumType(Role, { name: 'Role'`);
+    });
+
+    it('prisma enum is taken from namespace', () => {
+      const { namedImports, sourceText } = testSourceFile({
+        project,
+        file: 'sort-order.enum.ts',
+      });
+      expect(namedImports).toContainEqual({
+        name: 'Prisma',
+        specifier: '@prisma/client',
+      });
+      expect(sourceText).toContain('export const SortOrder = Prisma.SortOrder');
+      expect(sourceText).toContain('export type SortOrder = Prisma.SortOrder');
+    });
+
+    it('property type', () => {
+      const { property } = testSourceFile({
+        project,
+        class: 'User',
+        property: 'role',
+      });
+      expect(property?.type).toEqual('Role');
+    });
+  });
+
+  describe('const-object', () => {
+    before(async () => {
+      ({ project } = await testGenerate({
+        schema,
+        options: [`enumSource = "const-object"`],
+      }));
+    });
+
+    it('const object and union type', () => {
+      const { sourceFile } = testSourceFile({
+        project,
+        file: 'role.enum.ts',
+      });
+      expect(sourceFile.getEnum('Role')).toBeUndefined();
+      expect(
+        sourceFile.getVariableDeclaration('Role')?.getInitializer()?.getText(),
+      ).toMatch(/^{\s*USER: "USER",\s*ADMIN: "ADMIN",\s*} as const$/);
+      expect(sourceFile.getTypeAlias('Role')?.getTypeNode()?.getText()).toEqual(
+        '(typeof Role)[keyof typeof Role]',
+      );
+    });
+
+    it('property type', () => {
+      const { property } = testSourceFile({
+        project,
+        class: 'UserCreateInput',
+        property: 'role',
+      });
+      expect(property?.type).toEqual('Role');
+    });
+  });
+
+  describe('generate', () => {
+    before(async () => {
+      ({ project } = await testGenerate({ schema }));
+    });
+
+    it('enum is declared', () => {
+      const { sourceFile } = testSourceFile({
+        project,
+        file: 'role.enum.ts',
+      });
+      expect(sourceFile.getEnum('Role')).toBeDefined();
+    });
+
+    it('property type', () => {
+      const { property } = testSourceFile({
+        project,
+        class: 'User',
+        property: 'role',
+      });
+      expect(property?.type).toEqual('keyof typeof Role');
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+describe('enum values documentation', () => {
+  const schema = `
+    model User {
+      id   Int  @id
+      role Role
+    }
+    /// User role
+    enum Role {
+      /// Regular user
+      USER
+      /// Administrator
+      /// @deprecated Use OWNER
+      ADMIN
+      OWNER
+    }
+    `;
+
+  describe('nestjs-graphql', () => {
+    before(async () => {
+      ({ project } = await testGenerate({ schema }));
+    });
+
+    it('values map', () => {
+      const { sourceText } = testSourceFile({ project, file: 'role.enum.ts' });
+      expect(sourceText).toContain(
+        `valuesMap: {USER:{description:'Regular user'},ADMIN:{description:'Administrator',deprecationReason:'Use OWNER'}}`,
+      );
+    });
+
+    it('description of enum', () => {
+      const { sourceText } = testSourceFile({ project, file: 'role.enum.ts' });
+      expect(sourceText).toContain(`description: "User role"`);
+    });
+
+    it('no values map for enum without documentation', () => {
+      const { sourceText } = testSourceFile({ project, file: 'sort-order.enum.ts' });
+      expect(sourceText).not.toContain('valuesMap');
+    });
+  });
+
+  describe('type-graphql', () => {
+    before(async () => {
+      ({ project } = await testGenerate({
+        schema,
+        options: [`target = "type-graphql"`],
+      }));
+    });
+
+    it('values config', () => {
+      const { sourceText } = testSourceFile({ project, file: 'role.enum.ts' });
+      expect(sourceText).toContain(`valuesConfig: {USER:{description:'Regular user'}`);
+      expect(sourceText).not.toContain('valuesMap');
+    });
+  });
+});
+
+describe('enum values directives', () => {
+  const warnings: unknown[] = [];
+
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model User {
+          id   Int  @id
+          role Role
+        }
+        enum Role {
+          /// Regular user
+          /// @Directive({ arguments: ['@tag(name: "public")'] })
+          USER
+          ADMIN
+        }
+        `,
+      onConnect: emitter => {
+        emitter.on('Warning', (message: unknown) => warnings.push(message));
+      },
+    }));
+  });
+
+  it('directive of value is reported', () => {
+    expect(warnings).toContainEqual(
+      `Directive '@tag(name: "public")' of enum value Role.USER is not supported by registerEnumType, it is ignored`,
+    );
+  });
+
+  it('description of value is kept', () => {
+    const { sourceText } = testSourceFile({ project, file: 'role.enum.ts' });
+    expect(sourceText).toContain(`valuesMap: {USER:{description:'Regular user'}}`);
+  });
+});
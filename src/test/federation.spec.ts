@@ -0,0 +1,156 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+function getClassDecorators(file: string) {
+  const { classFile } = testSourceFile({ project, file });
+  return classFile.getDecorators().map(d => d.getText());
+}
+
+describe('federation', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model User {
+          id String @id
+          reviews Review[]
+          likes Like[]
+        }
+        model Product {
+          upc String @id
+          reviews Review[]
+        }
+        model Secret {
+          /// @HideField()
+          id String @id
+          /// @HideField()
+          code String @unique
+          value String
+        }
+        model Review {
+          id Int @id
+          slug String @unique
+          body String
+          authorId String
+          author User @relation(fields: [authorId], references: [id])
+          productUpc String
+          product Product @relation(fields: [productUpc], references: [upc])
+          likes Like[]
+        }
+        model Like {
+          userId String
+          user User @relation(fields: [userId], references: [id])
+          reviewId Int
+          review Review @relation(fields: [reviewId], references: [id])
+          @@id([userId, reviewId])
+        }
+        model Tag {
+          a String
+          b String
+          name String
+          @@id([a, b])
+        }
+        `,
+      options: [
+        `outputFilePattern = "{name}.{type}.ts"`,
+        `federation = true`,
+        `emitModules = true`,
+        `emitResolvers = true`,
+      ],
+    }));
+  });
+
+  it('key directives from id and unique fields', () => {
+    expect(getClassDecorators('review.model.ts')).toEqual([
+      '@ObjectType()',
+      `@Directive('@key(fields: "id")')`,
+      `@Directive('@key(fields: "slug")')`,
+    ]);
+    const { namedImports } = testSourceFile({ project, file: 'review.model.ts' });
+    expect(namedImports).toContainEqual({
+      name: 'Directive',
+      specifier: '@nestjs/graphql',
+    });
+  });
+
+  it('compound key', () => {
+    expect(getClassDecorators('tag.model.ts')).toContain(
+      `@Directive('@key(fields: "a b")')`,
+    );
+  });
+
+  it('model referenced only through relations extends entity', () => {
+    expect(getClassDecorators('product.model.ts')).toEqual([
+      '@ObjectType()',
+      `@Directive('@key(fields: "upc")')`,
+      `@Directive('@extends')`,
+    ]);
+    const { property } = testSourceFile({
+      project,
+      file: 'product.model.ts',
+      property: 'upc',
+    });
+    expect(property?.decorators?.map(d => d.name)).toEqual(['Field', 'Directive']);
+    expect(property?.decorators?.[1].arguments).toEqual([`'@external'`]);
+    expect(getClassDecorators('user.model.ts')).toContain(`@Directive('@extends')`);
+    expect(
+      project.getSourceFile(s => s.getFilePath().endsWith('product.reference.ts')),
+    ).toBeUndefined();
+    const { sourceText } = testSourceFile({ project, file: 'product.module.ts' });
+    expect(sourceText).not.toContain('ProductReferenceResolver');
+  });
+
+  it('model with only keys and foreign key relations is entity', () => {
+    expect(getClassDecorators('like.model.ts')).toEqual([
+      '@ObjectType()',
+      `@Directive('@key(fields: "userId reviewId")')`,
+    ]);
+    expect(
+      project.getSourceFile(s => s.getFilePath().endsWith('like.reference.ts')),
+    ).toBeDefined();
+  });
+
+  it('hidden key fields', () => {
+    expect(getClassDecorators('secret.model.ts')).toEqual([
+      '@ObjectType()',
+      `@Directive('@shareable')`,
+    ]);
+    expect(
+      project.getSourceFile(s => s.getFilePath().endsWith('secret.reference.ts')),
+    ).toBeUndefined();
+    const { sourceText } = testSourceFile({ project, file: 'secret.module.ts' });
+    expect(sourceText).not.toContain('SecretReferenceResolver');
+  });
+
+  it('reference resolver', () => {
+    const { classFile } = testSourceFile({ project, file: 'review.reference.ts' });
+    expect(classFile.getName()).toEqual('ReviewReferenceResolver');
+    const method = classFile.getMethodOrThrow('resolveReference');
+    expect(method.getDecorator('ResolveReference')).toBeTruthy();
+    expect(method.getBodyText()).toEqual(
+      'return this.prisma.review.findUnique({ where: { id: reference.id } });',
+    );
+  });
+
+  it('reference resolver with compound key', () => {
+    const { classFile } = testSourceFile({ project, file: 'tag.reference.ts' });
+    expect(classFile.getMethodOrThrow('resolveReference').getBodyText()).toContain(
+      'where: { a_b: { a: reference.a, b: reference.b } }',
+    );
+  });
+
+  it('reference resolver in module providers', () => {
+    const { sourceText } = testSourceFile({ project, file: 'review.module.ts' });
+    expect(sourceText).toContain('ReviewReferenceResolver');
+  });
+
+  it('shareable output type', () => {
+    expect(getClassDecorators('review-count-aggregate.output.ts')).toContain(
+      `@Directive('@shareable')`,
+    );
+  });
+});
@@ -994,6 +994,66 @@ describe('two models with id only and relation', () => {
       expect(p?.type).toEqual('Array<Post>');
     });
   });
+
+  it('args class for relation field without emit relation resolvers', () => {
+    expect(
+      project.getSourceFile(s => s.getFilePath().endsWith('user-posts.args.ts')),
+    ).toBeDefined();
+  });
+});
+
+describe('relation field args', () => {
+  before(async () => {
+    ({ project, sourceFiles } = await testGenerate({
+      schema: `
+                model User {
+                  id    Int    @id
+                  posts Post[]
+                }
+                model Post {
+                  id     Int   @id
+                  User   User? @relation(fields: [userId], references: [id])
+                  userId Int?
+                }
+            `,
+    }));
+  });
+
+  it('args class for relation field', () => {
+    const s = testSourceFile({ project, file: 'user/user-posts.args.ts' });
+    expect(s.classFile.getName()).toEqual('UserPostsArgs');
+    expect(s.classFile.getDecorator('ArgsType')).toBeTruthy();
+  });
+
+  it('where', () => {
+    const s = testSourceFile({
+      project,
+      file: 'user/user-posts.args.ts',
+      property: 'where',
+    });
+    expect(s.property?.type).toEqual('PostWhereInput');
+    expect(s.fieldDecoratorType).toEqual('() => PostWhereInput');
+    expect(s.namedImports).toContainEqual({
+      name: 'PostWhereInput',
+      specifier: '../post/post-where.input',
+    });
+  });
+
+  it('take', () => {
+    const s = testSourceFile({
+      project,
+      file: 'user/user-posts.args.ts',
+      property: 'take',
+    });
+    expect(s.property?.type).toEqual('number');
+    expect(s.fieldDecoratorType).toEqual('() => Int');
+  });
+
+  it('no args class for to one relation', () => {
+    expect(
+      project.getSourceFile(s => s.getFilePath().endsWith('post-user.args.ts')),
+    ).toBeUndefined();
+  });
 });
 
 it('enum with exists source', async () => {
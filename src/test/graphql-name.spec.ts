@@ -0,0 +1,278 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+describe('graphql name', () => {
+  const schema = `
+    model User {
+      id         Int    @id
+      /// @GraphQLName(email)
+      usr_email  String @map("email")
+      first_name String
+    }
+    `;
+
+  describe('setting', () => {
+    before(async () => {
+      ({ project } = await testGenerate({ schema }));
+    });
+
+    it('model', () => {
+      const { property, fieldDecoratorOptions } = testSourceFile({
+        project,
+        class: 'User',
+        property: 'usr_email',
+      });
+      expect(property?.name).toEqual('usr_email');
+      expect(fieldDecoratorOptions).toEqual(`{name:'email',nullable:false}`);
+    });
+
+    it('field without setting', () => {
+      const { fieldDecoratorOptions } = testSourceFile({
+        project,
+        class: 'User',
+        property: 'first_name',
+      });
+      expect(fieldDecoratorOptions).toEqual('{nullable:false}');
+    });
+
+    it('output type', () => {
+      const { fieldDecoratorOptions } = testSourceFile({
+        project,
+        class: 'UserCountAggregate',
+        property: 'usr_email',
+      });
+      expect(fieldDecoratorOptions).toContain(`name:'email'`);
+    });
+
+    it('input types', () => {
+      for (const className of [
+        'UserCreateInput',
+        'UserWhereInput',
+        'UserOrderByWithRelationAndSearchRelevanceInput',
+      ]) {
+        const { fieldDecoratorOptions, property, namedImports } = testSourceFile({
+          project,
+          class: className,
+          property: 'usr_email',
+        });
+        expect(fieldDecoratorOptions).toContain(`name:'email'`);
+        const expose = property?.decorators?.find(d => d.name === 'Expose');
+        expect(expose?.arguments).toEqual([`{name:'email'}`]);
+        expect(namedImports).toContainEqual({
+          name: 'Expose',
+          specifier: 'class-transformer',
+        });
+      }
+    });
+
+    it('field without setting of input type', () => {
+      const { fieldDecoratorOptions, property } = testSourceFile({
+        project,
+        class: 'UserCreateInput',
+        property: 'first_name',
+      });
+      expect(fieldDecoratorOptions).toEqual('{nullable:false}');
+      expect(property?.decorators?.map(d => d.name)).toEqual(['Field']);
+    });
+
+    it('nested input is transformed', () => {
+      const { property } = testSourceFile({
+        project,
+        class: 'UserWhereInput',
+        property: 'AND',
+      });
+      const type = property?.decorators?.find(d => d.name === 'Type');
+      expect(type?.arguments).toEqual(['() => UserWhereInput']);
+    });
+
+    it('not model input', () => {
+      const { sourceText } = testSourceFile({
+        project,
+        file: 'string-filter.input.ts',
+      });
+      expect(sourceText).not.toContain(`name:'email'`);
+    });
+  });
+
+  describe('naming strategy', () => {
+    before(async () => {
+      ({ project } = await testGenerate({
+        schema,
+        options: [`graphqlFieldNaming = "camelCase"`],
+      }));
+    });
+
+    it('camel case name', () => {
+      const { fieldDecoratorOptions } = testSourceFile({
+        project,
+        class: 'User',
+        property: 'first_name',
+      });
+      expect(fieldDecoratorOptions).toEqual(`{name:'firstName',nullable:false}`);
+    });
+
+    it('setting takes precedence', () => {
+      const { fieldDecoratorOptions } = testSourceFile({
+        project,
+        class: 'UserCreateInput',
+        property: 'usr_email',
+      });
+      expect(fieldDecoratorOptions).toContain(`name:'email'`);
+    });
+
+    it('camel case name of input', () => {
+      const { fieldDecoratorOptions, property } = testSourceFile({
+        project,
+        class: 'UserWhereInput',
+        property: 'first_name',
+      });
+      expect(fieldDecoratorOptions).toContain(`name:'firstName'`);
+      const expose = property?.decorators?.find(d => d.name === 'Expose');
+      expect(expose?.arguments).toEqual([`{name:'firstName'}`]);
+    });
+
+    it('same name is not set', () => {
+      const { fieldDecoratorOptions } = testSourceFile({
+        project,
+        class: 'User',
+        property: 'id',
+      });
+      expect(fieldDecoratorOptions).toEqual('{nullable:false}');
+    });
+
+    it('count field is not renamed', () => {
+      const { fieldDecoratorOptions } = testSourceFile({
+        project,
+        class: 'UserGroupBy',
+        property: '_count',
+      });
+      expect(fieldDecoratorOptions).not.toContain('name:');
+    });
+  });
+
+  describe('resolvers and services', () => {
+    before(async () => {
+      ({ project } = await testGenerate({
+        schema,
+        options: [
+          `outputFilePattern = "{name}.{type}.ts"`,
+          `emitResolvers = true`,
+          `emitServices = true`,
+        ],
+      }));
+    });
+
+    it('resolver maps graphql names to prisma names', () => {
+      const { sourceFile } = testSourceFile({ project, file: 'user.resolver.ts' });
+      const method = sourceFile
+        .getClassOrThrow('UserResolver')
+        .getMethodOrThrow('findManyUser');
+      expect(method.getParameterOrThrow('graphqlArgs').getType().getText()).toContain(
+        'FindManyUserArgs',
+      );
+      expect(method.getBodyText()).toContain(
+        'const args = graphqlArgs instanceof FindManyUserArgs',
+      );
+      expect(method.getBodyText()).toContain(
+        'plainToInstance(FindManyUserArgs, graphqlArgs as object);',
+      );
+      expect(method.getBodyText()).toContain('return this.userService.findMany(args);');
+    });
+
+    it('service passes args to prisma client as is', () => {
+      const { sourceFile } = testSourceFile({ project, file: 'user.service.ts' });
+      expect(
+        sourceFile
+          .getClassOrThrow('UserService')
+          .getMethodOrThrow('findMany')
+          .getText(),
+      ).toContain('return this.prisma.user.findMany(prismaArgs);');
+    });
+  });
+
+  describe('federation and authorize', () => {
+    before(async () => {
+      ({ project } = await testGenerate({
+        schema: `
+          /// @Authorize(admin)
+          model User {
+            /// @GraphQLName(userId)
+            user_id   Int    @id
+            usr_email String
+          }
+          `,
+        options: [
+          `outputFilePattern = "{name}.{type}.ts"`,
+          `federation = true`,
+          `graphqlFieldNaming = "camelCase"`,
+        ],
+      }));
+    });
+
+    it('key fields', () => {
+      const { classFile } = testSourceFile({ project, file: 'user.model.ts' });
+      expect(
+        classFile.getDecoratorOrThrow('Directive').getArguments()[0].getText(),
+      ).toEqual(`'@key(fields: "userId")'`);
+    });
+
+    it('reference resolver', () => {
+      const { classFile } = testSourceFile({ project, file: 'user.reference.ts' });
+      const method = classFile.getMethodOrThrow('resolveReference');
+      expect(
+        method.getParameterOrThrow('reference').getTypeNodeOrThrow().getText(),
+      ).toEqual(`{ __typename: string; userId: User['user_id'] }`);
+      expect(method.getBodyText()).toContain('where: { user_id: reference.userId }');
+    });
+
+    it('registry', () => {
+      const { sourceFile } = testSourceFile({
+        project,
+        file: 'authorized-fields.registry.ts',
+      });
+      const initializer = sourceFile
+        .getVariableDeclarationOrThrow('authorizedFields')
+        .getInitializerOrThrow()
+        .getText();
+      expect(initializer).toContain(`User: {userId:['admin'],usrEmail:['admin']},`);
+    });
+  });
+
+  describe('type-graphql', () => {
+    before(async () => {
+      ({ project } = await testGenerate({
+        schema,
+        options: [`target = "type-graphql"`, `graphqlFieldNaming = "camelCase"`],
+      }));
+    });
+
+    it('input types', () => {
+      for (const className of [
+        'UserCreateInput',
+        'UserWhereInput',
+        'UserOrderByWithRelationAndSearchRelevanceInput',
+      ]) {
+        const { fieldDecoratorOptions } = testSourceFile({
+          project,
+          class: className,
+          property: 'usr_email',
+        });
+        expect(fieldDecoratorOptions).toContain(`name:'email'`);
+      }
+    });
+
+    it('camel case name of input', () => {
+      const { fieldDecoratorOptions } = testSourceFile({
+        project,
+        class: 'UserWhereInput',
+        property: 'first_name',
+      });
+      expect(fieldDecoratorOptions).toContain(`name:'firstName'`);
+    });
+  });
+});
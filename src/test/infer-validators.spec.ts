@@ -0,0 +1,143 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { inferValidators } from '../helpers/infer-validators';
+import { Field } from '../types';
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+function getDecorators(file: string, property: string) {
+  const { classFile } = testSourceFile({ project, file });
+  return classFile
+    .getPropertyOrThrow(property)
+    .getDecorators()
+    .map(
+      d =>
+        `${d.getFullName()}(${d
+          .getArguments()
+          .map(a => a.getText())
+          .join(', ')})`,
+    );
+}
+
+describe('infer validators', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model User {
+          id Int @id
+          name String
+          /// @Validator.IsOptional()
+          nick String
+          age Int?
+          role Role
+          posts Post[]
+        }
+        model Post {
+          id Int @id
+          author User @relation(fields: [authorId], references: [id])
+          authorId Int
+        }
+        enum Role {
+          USER
+          ADMIN
+        }
+        `,
+      options: [
+        `outputFilePattern = "{name}.{type}.ts"`,
+        `inferValidators = true`,
+        `fields_Validator_from = "class-validator"`,
+        `fields_Validator_input = true`,
+      ],
+    }));
+  });
+
+  it('required field', () => {
+    expect(getDecorators('user-create.input.ts', 'name')).toEqual([
+      expect.stringContaining('Field('),
+      'IsNotEmpty()',
+    ]);
+  });
+
+  it('optional int field', () => {
+    expect(getDecorators('user-create.input.ts', 'age')).toEqual([
+      expect.stringContaining('Field('),
+      'IsOptional()',
+      'IsInt()',
+    ]);
+  });
+
+  it('enum field', () => {
+    const { namedImports } = testSourceFile({ project, file: 'user-create.input.ts' });
+    expect(getDecorators('user-create.input.ts', 'role')).toContain('IsEnum(Role)');
+    expect(namedImports).toContainEqual({
+      name: 'IsEnum',
+      specifier: 'class-validator',
+    });
+  });
+
+  it('relation field', () => {
+    expect(getDecorators('user-create.input.ts', 'posts')).toEqual([
+      expect.stringContaining('Field('),
+      'IsOptional()',
+      'ValidateNested()',
+    ]);
+  });
+
+  it('explicit setting wins', () => {
+    expect(getDecorators('user-create.input.ts', 'nick')).toEqual([
+      expect.stringContaining('Field('),
+      'Validator.IsOptional()',
+    ]);
+  });
+
+  it('not model input fields', () => {
+    expect(getDecorators('user-where.input.ts', 'name')).toEqual([
+      expect.stringContaining('Field('),
+    ]);
+    expect(getDecorators('user-update.input.ts', 'age')).toEqual([
+      expect.stringContaining('Field('),
+    ]);
+  });
+
+  it('output types are not affected', () => {
+    expect(getDecorators('user.model.ts', 'name')).toEqual([
+      expect.stringContaining('Field('),
+    ]);
+  });
+});
+
+describe('infer validators from native type', () => {
+  const modelField = {
+    name: 'name',
+    type: 'String',
+    kind: 'scalar',
+    nativeType: ['VarChar', ['50']],
+  } as unknown as Field;
+
+  it('max length', () => {
+    expect(
+      inferValidators({
+        modelField,
+        isRequired: true,
+        isList: false,
+        location: 'scalar',
+        typeName: 'String',
+      }).map(d => d.name),
+    ).toEqual(['IsNotEmpty', 'MaxLength']);
+  });
+
+  it('list of strings', () => {
+    expect(
+      inferValidators({
+        modelField,
+        isRequired: false,
+        isList: true,
+        location: 'scalar',
+        typeName: 'String',
+      }),
+    ).toContainEqual({ name: 'MaxLength', arguments: ['50', '{ each: true }'] });
+  });
+});
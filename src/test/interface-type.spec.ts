@@ -0,0 +1,70 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+describe('interface type', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        /// Base entity
+        /// @InterfaceType()
+        model Node {
+          id String @id
+        }
+        /// @Implements(Node, Timestamped)
+        model User {
+          id String @id
+          name String
+        }
+        /// @ObjectType('PostType')
+        /// @Implements(Node)
+        model Post {
+          id String @id
+        }
+        `,
+    }));
+  });
+
+  it('interface decorator', () => {
+    const { classFile, namedImports } = testSourceFile({
+      project,
+      class: 'Node',
+    });
+    expect(classFile.getDecorator('ObjectType')).toBeUndefined();
+    expect(classFile.getDecoratorOrThrow('InterfaceType').getText()).toEqual(
+      `@InterfaceType({description:'Base entity'})`,
+    );
+    expect(namedImports).toContainEqual({
+      name: 'InterfaceType',
+      specifier: '@nestjs/graphql',
+    });
+  });
+
+  it('implements', () => {
+    const { classFile, namedImports } = testSourceFile({
+      project,
+      class: 'User',
+    });
+    expect(classFile.getDecoratorOrThrow('ObjectType').getText()).toEqual(
+      '@ObjectType({implements:() => [Node, Timestamped]})',
+    );
+    expect(namedImports).toContainEqual({
+      name: 'Node',
+      specifier: '../node/node.model',
+    });
+  });
+
+  it('implements with name', () => {
+    const { classFile } = testSourceFile({
+      project,
+      class: 'Post',
+    });
+    expect(classFile.getDecoratorOrThrow('ObjectType').getText()).toEqual(
+      `@ObjectType('PostType', {implements:() => [Node]})`,
+    );
+  });
+});
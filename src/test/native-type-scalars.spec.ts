@@ -0,0 +1,80 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+describe('native type scalars', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model Account {
+          id   Int      @id
+          ref  String   @db.Uuid
+          born DateTime @db.Date
+          name String
+        }
+        `,
+      options: [
+        `nativeTypeScalars_Uuid_name = "GraphQLUUID"`,
+        `nativeTypeScalars_Uuid_specifier = "graphql-scalars"`,
+        `nativeTypeScalars_Date_name = "GraphQLLocalDate"`,
+        `nativeTypeScalars_Date_specifier = "graphql-scalars"`,
+        `nativeTypeScalars_Date_propertyType = "string"`,
+      ],
+    }));
+  });
+
+  for (const className of ['Account', 'AccountGroupBy', 'AccountCreateInput']) {
+    describe(className, () => {
+      it('uuid field', () => {
+        const { property, fieldDecoratorType, namedImports } = testSourceFile({
+          project,
+          class: className,
+          property: 'ref',
+        });
+        expect(fieldDecoratorType).toEqual('() => GraphQLUUID');
+        expect(property?.type).toEqual('string');
+        expect(namedImports).toContainEqual({
+          name: 'GraphQLUUID',
+          specifier: 'graphql-scalars',
+        });
+      });
+
+      it('date field', () => {
+        const { property, fieldDecoratorType, namedImports } = testSourceFile({
+          project,
+          class: className,
+          property: 'born',
+        });
+        expect(fieldDecoratorType).toEqual('() => GraphQLLocalDate');
+        expect(property?.type).toEqual('string');
+        expect(namedImports).toContainEqual({
+          name: 'GraphQLLocalDate',
+          specifier: 'graphql-scalars',
+        });
+      });
+
+      it('field without native type', () => {
+        const { property, fieldDecoratorType } = testSourceFile({
+          project,
+          class: className,
+          property: 'name',
+        });
+        expect(fieldDecoratorType).toEqual('() => String');
+        expect(property?.type).toEqual('string');
+      });
+    });
+  }
+
+  it('filter is not affected', () => {
+    const { fieldDecoratorType } = testSourceFile({
+      project,
+      class: 'AccountWhereInput',
+      property: 'born',
+    });
+    expect(fieldDecoratorType).toEqual('() => DateTimeFilter');
+  });
+});
@@ -0,0 +1,102 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+const schema = `
+  model User {
+    id Int @id
+    name String
+    posts Post[]
+  }
+  model Post {
+    id Int @id
+    author User @relation(fields: [authorId], references: [id])
+    authorId Int
+  }
+`;
+
+function getDecorators(file: string, property: string) {
+  const { propertyDecorators } = testSourceFile({ project, file, property });
+  return (propertyDecorators || []).map(
+    d => `${d.name}(${(d.arguments as string[]).join(', ')})`,
+  );
+}
+
+describe('transform and validate nested input', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema,
+      options: [
+        `outputFilePattern = "{name}.{type}.ts"`,
+        `transformNestedInput = true`,
+        `validateNestedInput = true`,
+      ],
+    }));
+  });
+
+  it('nested input property', () => {
+    const { namedImports } = testSourceFile({ project, file: 'user-create.input.ts' });
+    expect(getDecorators('user-create.input.ts', 'posts')).toEqual([
+      'Field(() => PostCreateNestedManyWithoutAuthorInput, {nullable:true})',
+      'Type(() => PostCreateNestedManyWithoutAuthorInput)',
+      'ValidateNested()',
+    ]);
+    expect(namedImports).toContainEqual({
+      name: 'Type',
+      specifier: 'class-transformer',
+    });
+    expect(namedImports).toContainEqual({
+      name: 'ValidateNested',
+      specifier: 'class-validator',
+    });
+  });
+
+  it('args property', () => {
+    expect(getDecorators('create-one-user.args.ts', 'data')).toEqual([
+      'Field(() => UserCreateInput, {nullable:false})',
+      'Type(() => UserCreateInput)',
+      'ValidateNested()',
+    ]);
+  });
+
+  it('self reference', () => {
+    expect(getDecorators('user-where.input.ts', 'AND')).toContain(
+      'Type(() => UserWhereInput)',
+    );
+  });
+
+  it('scalar property', () => {
+    expect(getDecorators('user-create.input.ts', 'name')).toEqual([
+      'Field(() => String, {nullable:false})',
+    ]);
+  });
+});
+
+describe('transform nested input with decorate', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema,
+      options: [
+        `outputFilePattern = "{name}.{type}.ts"`,
+        `transformNestedInput = true`,
+        `decorate_1_type = "CreateOneUserArgs"`,
+        `decorate_1_field = data`,
+        `decorate_1_from = "class-transformer"`,
+        `decorate_1_arguments = "['() => {propertyType.0}']"`,
+        `decorate_1_name = Type`,
+        `decorate_1_namedImport = true`,
+      ],
+    }));
+  });
+
+  it('type decorator is not duplicated', () => {
+    expect(getDecorators('create-one-user.args.ts', 'data')).toEqual([
+      'Field(() => UserCreateInput, {nullable:false})',
+      'Type(() => UserCreateInput)',
+    ]);
+  });
+});
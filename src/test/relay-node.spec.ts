@@ -0,0 +1,173 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+describe('relay node', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model User {
+          id Int @id
+          name String
+        }
+        /// @Implements(Timestamped)
+        model Article {
+          id String @id
+        }
+        model Tag {
+          name String @id
+        }
+        `,
+      options: [`relayNode = true`],
+    }));
+  });
+
+  it('node interface', () => {
+    const { classFile, sourceFile, fieldDecoratorType } = testSourceFile({
+      project,
+      class: 'Node',
+      property: 'id',
+    });
+    expect(sourceFile.getFilePath()).toContain('/prisma/node.interface.ts');
+    expect(classFile.getDecorator('InterfaceType')).toBeTruthy();
+    expect(fieldDecoratorType).toEqual('() => ID');
+    expect(sourceFile.getFunction('toGlobalId')).toBeTruthy();
+    expect(sourceFile.getFunction('fromGlobalId')).toBeTruthy();
+  });
+
+  it('resolve type by model class', () => {
+    const { classFile } = testSourceFile({ project, class: 'Node' });
+    expect(classFile.getDecoratorOrThrow('InterfaceType').getText()).toContain(
+      'resolveType: (value: object) => value.constructor',
+    );
+  });
+
+  it('from global id checks type name', () => {
+    const { sourceFile } = testSourceFile({ project, class: 'Node' });
+    const fromGlobalId = sourceFile.getFunctionOrThrow('fromGlobalId');
+    expect(fromGlobalId.getParameters().map(p => p.getText())).toEqual([
+      'globalId: string',
+      'typeName?: string',
+    ]);
+    expect(fromGlobalId.getBodyText()).toContain(
+      'if (typeName !== undefined && result.typeName !== typeName) {',
+    );
+  });
+
+  it('node query resolver', () => {
+    const { sourceFile, classFile } = testSourceFile({
+      project,
+      class: 'NodeResolver',
+    });
+    expect(sourceFile.getFilePath()).toContain('/prisma/node.resolver.ts');
+    const node = classFile.getMethodOrThrow('node');
+    expect(
+      node
+        .getDecoratorOrThrow('Query')
+        .getArguments()
+        .map(a => a.getText()),
+    ).toEqual(['() => Node', '{ nullable: true }']);
+    const bodyText = node.getBodyText();
+    expect(bodyText).toContain(
+      'const node = await this.prisma.user.findUnique({ where: { id: Number(nodeId) } });',
+    );
+    expect(bodyText).toContain('return node && Object.assign(new User(), node);');
+    expect(bodyText).toContain(
+      'const node = await this.prisma.article.findUnique({ where: { id: nodeId } });',
+    );
+    expect(bodyText).not.toContain("case 'Tag'");
+  });
+
+  it('model implements node', () => {
+    const { classFile, namedImports } = testSourceFile({
+      project,
+      class: 'User',
+    });
+    expect(classFile.getDecoratorOrThrow('ObjectType').getText()).toContain(
+      'implements: () => [Node]',
+    );
+    expect(namedImports).toContainEqual({
+      name: 'Node',
+      specifier: '../prisma/node.interface',
+    });
+  });
+
+  it('node is added to implements setting', () => {
+    const { classFile } = testSourceFile({
+      project,
+      class: 'Article',
+    });
+    expect(classFile.getDecoratorOrThrow('ObjectType').getText()).toContain(
+      '[Node, Timestamped]',
+    );
+  });
+
+  it('model id is global id', () => {
+    const { fieldDecoratorType, fieldDecoratorOptions } = testSourceFile({
+      project,
+      class: 'User',
+      property: 'id',
+    });
+    expect(fieldDecoratorType).toEqual('() => ID');
+    expect(fieldDecoratorOptions).toContain("middleware: [globalIdMiddleware('User')]");
+  });
+
+  it('model without id field is not node', () => {
+    const { classFile } = testSourceFile({
+      project,
+      class: 'Tag',
+    });
+    expect(classFile.getDecoratorOrThrow('ObjectType').getText()).not.toContain('Node');
+  });
+
+  it('where unique input decodes global id', () => {
+    const { fieldDecoratorType, propertyDecorators, namedImports } = testSourceFile({
+      project,
+      class: 'UserWhereUniqueInput',
+      property: 'id',
+    });
+    expect(fieldDecoratorType).toEqual('() => ID');
+    expect(propertyDecorators?.find(d => d.name === 'Transform')?.arguments).toEqual([
+      "({ value }) => (typeof value === 'string' ? Number(fromGlobalId(value, 'User').id) : value)",
+    ]);
+    expect(namedImports).toContainEqual({
+      name: 'Transform',
+      specifier: 'class-transformer',
+    });
+    expect(namedImports).not.toContainEqual(expect.objectContaining({ name: 'Int' }));
+  });
+});
+
+describe('relay node with modules', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model User {
+          id Int @id
+        }
+        `,
+      options: [
+        `outputFilePattern = "{name}.{type}.ts"`,
+        `relayNode = true`,
+        `emitModules = true`,
+        `emitResolvers = true`,
+        `prismaService_name = "PrismaService"`,
+        `prismaService_specifier = "../src/prisma.service"`,
+      ],
+    }));
+  });
+
+  it('node resolver in root module providers', () => {
+    const { classFile } = testSourceFile({
+      project,
+      file: 'generated-graphql.module.ts',
+    });
+    expect(classFile.getDecoratorOrThrow('Module').getText()).toContain(
+      'providers: [NodeResolver, { provide: PrismaClient, useExisting: PrismaService }]',
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import expect from 'expect';
+import { Project } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+describe('target type-graphql', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        model User {
+          id Int @id
+          /// @HideField()
+          password String
+          born DateTime
+          count Float
+          role Role
+        }
+        enum Role {
+          USER
+          ADMIN
+        }
+        `,
+      options: [`outputFilePattern = "{name}.{type}.ts"`, `target = "type-graphql"`],
+    }));
+  });
+
+  it('model imports', () => {
+    const { namedImports } = testSourceFile({ project, file: 'user.model.ts' });
+    expect(namedImports).toContainEqual({ name: 'Field', specifier: 'type-graphql' });
+    expect(namedImports).toContainEqual({
+      name: 'ObjectType',
+      specifier: 'type-graphql',
+    });
+    expect(namedImports).toContainEqual({ name: 'ID', specifier: 'type-graphql' });
+    expect(namedImports).toContainEqual({ name: 'Float', specifier: 'type-graphql' });
+    expect(namedImports).not.toContainEqual(
+      expect.objectContaining({ specifier: '@nestjs/graphql' }),
+    );
+  });
+
+  it('date time', () => {
+    const { fieldDecoratorType, namedImports } = testSourceFile({
+      project,
+      file: 'user.model.ts',
+      property: 'born',
+    });
+    expect(fieldDecoratorType).toEqual('() => GraphQLISODateTime');
+    expect(namedImports).toContainEqual({
+      name: 'GraphQLISODateTime',
+      specifier: 'type-graphql',
+    });
+  });
+
+  it('hidden field has no decorators', () => {
+    const { propertyDecorators, namedImports } = testSourceFile({
+      project,
+      file: 'user.model.ts',
+      property: 'password',
+    });
+    expect(propertyDecorators).toEqual([]);
+    expect(namedImports).not.toContainEqual(
+      expect.objectContaining({ name: 'HideField' }),
+    );
+  });
+
+  it('input type', () => {
+    const { namedImports } = testSourceFile({ project, file: 'user-create.input.ts' });
+    expect(namedImports).toContainEqual({
+      name: 'InputType',
+      specifier: 'type-graphql',
+    });
+    expect(namedImports).toContainEqual({ name: 'Field', specifier: 'type-graphql' });
+  });
+
+  it('register enum', () => {
+    const { namedImports, sourceText } = testSourceFile({
+      project,
+      file: 'role.enum.ts',
+    });
+    expect(namedImports).toContainEqual({
+      name: 'registerEnumType',
+      specifier: 'type-graphql',
+    });
+    expect(sourceText).toContain("registerEnumType(Role, { name: 'Role'");
+  });
+});
@@ -94,8 +94,12 @@ export async function testGenerate(args: {
       throw new Error(`Duplicated import in ${filePath}: ${imports.toString()}`);
     }
     // Find classes without @Field() (must define one or more fields)
+    // Resolvers, services, loaders and modules are not graphql types
+    const isProvider = /\.(?:resolver|service|loader|module|reference)\.ts$/.test(
+      filePath,
+    );
     const properties = sourceFile.getClass(() => true)?.getProperties();
-    if (properties && !properties.some(p => p.getDecorator('Field'))) {
+    if (!isProvider && properties && !properties.some(p => p.getDecorator('Field'))) {
       emptyFieldsFiles.push(sourceFile.getBaseName());
     }
   }
@@ -0,0 +1,203 @@
+/* eslint-disable unicorn/no-null */
+import expect from 'expect';
+import { Project, ts } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+const schema = `
+        /// @Union(CommentTarget, [article, video])
+        model Comment {
+          id        Int      @id
+          article   Article? @relation(fields: [articleId], references: [id])
+          articleId Int?
+          video     Video?   @relation(fields: [videoId], references: [id])
+          videoId   Int?
+        }
+        model Article {
+          id       Int       @id
+          comments Comment[]
+        }
+        model Video {
+          id       Int       @id
+          comments Comment[]
+        }
+        `;
+
+/**
+ * Compile generated function to call it with parent object.
+ */
+function compileFunction(text: string, name: string) {
+  const code = ts.transpile(text.replace(/^export /, ''), {
+    target: ts.ScriptTarget.ES2019,
+  });
+  // eslint-disable-next-line @typescript-eslint/no-implied-eval
+  return new Function(`${code}; return ${name};`)() as (
+    ...args: unknown[]
+  ) => Promise<unknown>;
+}
+
+describe('union type', () => {
+  before(async () => {
+    ({ project } = await testGenerate({ schema }));
+  });
+
+  it('union declaration', () => {
+    const { sourceFile, namedImports } = testSourceFile({
+      project,
+      class: 'Comment',
+    });
+    const initializer = sourceFile
+      .getVariableDeclarationOrThrow('CommentTarget')
+      .getInitializerOrThrow()
+      .getText();
+    expect(initializer).toContain('createUnionType(');
+    expect(initializer).toContain(`name: 'CommentTarget'`);
+    expect(initializer).toContain('types: () => [Article, Video] as const');
+    expect(namedImports).toContainEqual({
+      name: 'createUnionType',
+      specifier: '@nestjs/graphql',
+    });
+    expect(namedImports).toContainEqual({
+      name: 'Video',
+      specifier: '../video/video.model',
+    });
+  });
+
+  it('union field', () => {
+    const { property, fieldDecoratorType, fieldDecoratorOptions } = testSourceFile({
+      project,
+      class: 'Comment',
+      property: 'target',
+    });
+    expect(property?.type).toEqual('Article | Video | null');
+    expect(fieldDecoratorType).toEqual('() => CommentTarget');
+    expect(fieldDecoratorOptions).toContain('middleware:[resolveCommentTarget]');
+  });
+
+  it('resolver of union field', () => {
+    const { sourceFile } = testSourceFile({
+      project,
+      class: 'Comment',
+    });
+    const text = sourceFile.getFunctionOrThrow('resolveCommentTarget').getText();
+    expect(text).toContain(`return { ...source.article, __typename: 'Article' };`);
+    expect(text).toContain(`return { ...source.video, __typename: 'Video' };`);
+  });
+
+  it('resolver of union field with parent without included relations', async () => {
+    const { sourceFile } = testSourceFile({
+      project,
+      class: 'Comment',
+    });
+    const resolveCommentTarget = compileFunction(
+      sourceFile.getFunctionOrThrow('resolveCommentTarget').getText(),
+      'resolveCommentTarget',
+    );
+
+    await expect(
+      resolveCommentTarget({ source: { id: 1, articleId: null, videoId: 2 } }),
+    ).rejects.toThrow('Relation Comment.video of union CommentTarget is not loaded');
+    await expect(
+      resolveCommentTarget({ source: { id: 1, articleId: null, videoId: null } }),
+    ).resolves.toBeNull();
+    await expect(
+      resolveCommentTarget({ source: { id: 1, videoId: 2, video: { id: 2 } } }),
+    ).resolves.toEqual({ id: 2, __typename: 'Video' });
+  });
+});
+
+describe('union type with relation resolvers', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema,
+      options: [
+        `outputFilePattern = "{name}.{type}.ts"`,
+        `emitResolvers = true`,
+        `emitRelationResolvers = true`,
+      ],
+    }));
+  });
+
+  it('union field without middleware', () => {
+    const { sourceFile, fieldDecoratorOptions } = testSourceFile({
+      project,
+      class: 'Comment',
+      property: 'target',
+    });
+    expect(fieldDecoratorOptions).toEqual('{nullable:true}');
+    expect(sourceFile.getFunction('resolveCommentTarget')).toBeUndefined();
+  });
+
+  it('resolve field loads relations by foreign keys', async () => {
+    const { sourceFile, namedImports } = testSourceFile({
+      project,
+      file: 'comment.resolver.ts',
+    });
+    const method = sourceFile
+      .getClassOrThrow('CommentResolver')
+      .getMethodOrThrow('target');
+    expect(method.getDecoratorOrThrow('ResolveField').getText()).toEqual(
+      '@ResolveField(() => CommentTarget, {nullable:true})',
+    );
+    expect(namedImports).toContainEqual({
+      name: 'CommentTarget',
+      specifier: './comment.model',
+    });
+
+    const target = compileFunction(
+      `async function target(comment) {${method.getBodyText() ?? ''}}`,
+      'target',
+    );
+    const loaded: unknown[] = [];
+    const loader = (typeName: string) => () => ({
+      load: (id: number) => {
+        loaded.push(id);
+        return Promise.resolve({ id, typeName });
+      },
+    });
+    const resolver = {
+      commentLoader: { article: loader('article'), video: loader('video') },
+    };
+
+    await expect(
+      target.call(resolver, { id: 1, articleId: null, videoId: 2 }),
+    ).resolves.toEqual({ id: 2, typeName: 'video', __typename: 'Video' });
+    expect(loaded).toEqual([2]);
+    await expect(
+      target.call(resolver, { id: 1, articleId: null, videoId: null }),
+    ).resolves.toBeNull();
+  });
+});
+
+describe('union type with relation resolvers only', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema,
+      options: [
+        `outputFilePattern = "{name}.{type}.ts"`,
+        `emitRelationResolvers = true`,
+      ],
+    }));
+  });
+
+  it('union field is resolved in resolver of relation fields', () => {
+    const { sourceFile, fieldDecoratorOptions } = testSourceFile({
+      project,
+      class: 'Comment',
+      property: 'target',
+    });
+    expect(fieldDecoratorOptions).toEqual('{nullable:true}');
+    expect(sourceFile.getFunction('resolveCommentTarget')).toBeUndefined();
+
+    const { sourceFile: resolverFile } = testSourceFile({
+      project,
+      file: 'comment.resolver.ts',
+    });
+    expect(
+      resolverFile.getClassOrThrow('CommentResolver').getMethod('target'),
+    ).toBeDefined();
+  });
+});
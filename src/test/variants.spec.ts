@@ -0,0 +1,108 @@
+import expect from 'expect';
+import { Project, SyntaxKind } from 'ts-morph';
+
+import { testSourceFile } from './helpers';
+import { testGenerate } from './test-generate';
+
+let project: Project;
+
+describe('variants', () => {
+  before(async () => {
+    ({ project } = await testGenerate({
+      schema: `
+        /// User of app
+        /// @Variant(UserPublic, { pick: [id, name, image] })
+        /// @Variant(UserPartial, { omit: [password], partial: true })
+        /// @InputVariant(UserProfileUpdate, { from: UpdateInput, pick: [bio, image] })
+        model User {
+          id       Int     @id
+          /// Public name, nullable:false
+          name     String
+          /// @HideField()
+          password String
+          image    String?
+          /// @Validator.MaxLength(100)
+          bio      String
+        }
+        `,
+      options: [
+        `fields_Validator_from = "class-validator"`,
+        `fields_Validator_input = true`,
+        `fields_Validator_output = true`,
+      ],
+    }));
+  });
+
+  it('picked properties', () => {
+    const { sourceFile, classFile } = testSourceFile({
+      project,
+      class: 'UserPublic',
+    });
+    expect(sourceFile.getFilePath()).toContain('/user/user-public.model.ts');
+    expect(classFile.getDecorator('ObjectType')?.getArguments()).toEqual([]);
+    expect(classFile.getProperties().map(p => p.getName())).toEqual([
+      'id',
+      'name',
+      'image',
+    ]);
+  });
+
+  it('unused imports are removed', () => {
+    const { namedImports } = testSourceFile({
+      project,
+      class: 'UserPublic',
+    });
+    expect(namedImports.map(x => x.name)).toEqual(['Field', 'ObjectType', 'ID']);
+  });
+
+  it('omitted partial properties', () => {
+    const { classFile, property, fieldDecoratorOptions, sourceText } = testSourceFile({
+      project,
+      class: 'UserPartial',
+      property: 'bio',
+    });
+    expect(classFile.getProperty('password')).toBeUndefined();
+    expect(property?.hasQuestionToken).toBe(true);
+    expect(fieldDecoratorOptions).toContain('nullable:true');
+    expect(sourceText).toContain('@Validator.MaxLength(100)');
+    expect(sourceText).toContain(`import * as Validator from 'class-validator'`);
+  });
+
+  it('partial properties are nullable', () => {
+    const { classFile } = testSourceFile({
+      project,
+      class: 'UserPartial',
+    });
+    for (const property of classFile.getProperties()) {
+      const [, options] = property.getDecoratorOrThrow('Field').getArguments();
+      expect(
+        options
+          .asKindOrThrow(SyntaxKind.ObjectLiteralExpression)
+          .getPropertyOrThrow('nullable')
+          .asKindOrThrow(SyntaxKind.PropertyAssignment)
+          .getInitializer()
+          ?.getText(),
+      ).toEqual('true');
+    }
+    const description = classFile
+      .getPropertyOrThrow('name')
+      .getDecoratorOrThrow('Field')
+      .getArguments()[1]
+      .getText();
+    expect(description).toContain(`description:'Public name, nullable:false'`);
+  });
+
+  it('input variant', () => {
+    const { sourceFile, classFile, namedImports } = testSourceFile({
+      project,
+      class: 'UserProfileUpdate',
+    });
+    expect(sourceFile.getFilePath()).toContain('/user/user-profile-update.input.ts');
+    expect(classFile.getDecorator('InputType')).toBeTruthy();
+    expect(classFile.getProperties().map(p => p.getName())).toEqual(['image', 'bio']);
+    expect(namedImports).toContainEqual({
+      name: 'StringFieldUpdateOperationsInput',
+      specifier: '../prisma/string-field-update-operations.input',
+    });
+  });
+});
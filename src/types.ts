@@ -35,6 +35,10 @@ export type EventArguments = {
   config: GeneratorConfiguration;
   project: Project;
   output: string;
+  /**
+   * Prisma schema (text)
+   */
+  datamodel: string;
   getSourceFile(args: { type: string; name: string }): SourceFile;
   eventEmitter: AwaitEventEmitter;
   typeNames: Set<string>;